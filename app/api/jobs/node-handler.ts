@@ -0,0 +1,96 @@
+/**
+ * 用户任务列表 API
+ *
+ * GET /api/jobs 返回当前用户（与 /api/process 相同的匿名指纹）提交的任务，
+ * 支持按状态筛选、排序与分页，供任务历史页面找回关闭页面前提交的任务。
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+
+import { deriveClientFingerprint } from '@/lib/client-identity'
+import { listOwnerJobSnapshots, type JobStatus, type OwnerJobQuery } from '@/lib/job-queue'
+
+import { serializeJobStatus } from '../process/[jobId]/node-handler'
+
+const JOB_LIST_STATUSES: JobStatus[] = ['pending', 'processing', 'completed', 'partial', 'failed', 'cancelled']
+const JOB_LIST_SORT_FIELDS = ['createdAt', 'updatedAt'] as const
+const DEFAULT_PAGE_SIZE = 20
+const MAX_PAGE_SIZE = 100
+
+/**
+ * 查询参数不合法时抛出的错误，统一返回 400。
+ */
+class JobListQueryError extends Error {}
+
+/**
+ * 解析非负整数查询参数，缺省时返回默认值。
+ */
+function parseIntegerParam(raw: string | null, name: string, fallback: number, min: number, max: number): number {
+  if (raw === null || raw === '') {
+    return fallback
+  }
+
+  const parsed = Number(raw)
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new JobListQueryError(`${name} 必须是 ${min}-${max} 之间的整数`)
+  }
+  return parsed
+}
+
+/**
+ * 将 URL 查询参数转换为任务列表查询条件。
+ * 例如：?status=pending,processing&sort=updatedAt&order=asc&limit=10&offset=20
+ */
+function parseJobListQuery(params: URLSearchParams): OwnerJobQuery {
+  const rawStatuses = params.get('status')
+  let statuses: JobStatus[] | undefined
+  if (rawStatuses) {
+    statuses = rawStatuses.split(',').map((value) => value.trim()) as JobStatus[]
+    const invalidStatus = statuses.find((status) => !JOB_LIST_STATUSES.includes(status))
+    if (invalidStatus !== undefined) {
+      throw new JobListQueryError(`status 仅支持 ${JOB_LIST_STATUSES.join(' / ')}，收到: ${invalidStatus}`)
+    }
+  }
+
+  const sort = params.get('sort') ?? 'createdAt'
+  if (!(JOB_LIST_SORT_FIELDS as readonly string[]).includes(sort)) {
+    throw new JobListQueryError(`sort 仅支持 ${JOB_LIST_SORT_FIELDS.join(' / ')}`)
+  }
+
+  const order = params.get('order') ?? 'desc'
+  if (order !== 'asc' && order !== 'desc') {
+    throw new JobListQueryError('order 仅支持 asc / desc')
+  }
+
+  return {
+    statuses,
+    sort: sort as OwnerJobQuery['sort'],
+    order,
+    limit: parseIntegerParam(params.get('limit'), 'limit', DEFAULT_PAGE_SIZE, 1, MAX_PAGE_SIZE),
+    offset: parseIntegerParam(params.get('offset'), 'offset', 0, 0, Number.MAX_SAFE_INTEGER),
+  }
+}
+
+/**
+ * GET：分页返回当前用户的任务快照。
+ *
+ * @param req - 原始 HTTP 请求，用于计算 ownerId 与读取查询参数
+ * @returns `{ jobs, total, offset, limit }`；参数不合法时返回 400
+ */
+export async function handleJobsList(req: NextRequest) {
+  try {
+    const query = parseJobListQuery(req.nextUrl.searchParams)
+    const { ownerId } = deriveClientFingerprint(req)
+    const page = listOwnerJobSnapshots(ownerId, query)
+
+    return NextResponse.json({
+      ...page,
+      jobs: page.jobs.map((job) => serializeJobStatus(job, true)),
+    })
+  } catch (error) {
+    if (error instanceof JobListQueryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    throw error
+  }
+}
@@ -0,0 +1,9 @@
+/**
+ * 用户任务列表 API：路由入口
+ *
+ * 实际逻辑见 node-handler。
+ */
+
+export const runtime = 'nodejs'
+
+export { handleJobsList as GET } from './node-handler'
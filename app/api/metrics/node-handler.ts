@@ -0,0 +1,107 @@
+/**
+ * 监控指标 API
+ *
+ * GET /api/metrics 以 Prometheus 文本格式输出渲染队列的运行指标：
+ * 队列深度、各状态任务数、熔断状态等瞬时值在抓取时采集，计数器与直方图来自 `lib/metrics`。
+ * 配置 METRICS_BEARER_TOKEN 后需携带 `Authorization: Bearer <token>` 才能访问。
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { timingSafeEqual } from 'node:crypto'
+
+import { getQueueMetricsSnapshot, type JobStatus } from '@/lib/job-queue'
+import { renderPrometheusMetrics, type GaugeMetric } from '@/lib/metrics'
+
+const METRICS_BEARER_TOKEN = process.env.METRICS_BEARER_TOKEN?.trim() || null
+const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8'
+
+/**
+ * 校验抓取请求的访问令牌；未配置令牌时不做限制。
+ */
+function isMetricsRequestAuthorized(req: NextRequest): boolean {
+  if (!METRICS_BEARER_TOKEN) {
+    return true
+  }
+
+  const header = req.headers.get('authorization') ?? ''
+  const provided = Buffer.from(header.replace(/^Bearer\s+/i, ''))
+  const expected = Buffer.from(METRICS_BEARER_TOKEN)
+  return provided.length === expected.length && timingSafeEqual(provided, expected)
+}
+
+/**
+ * 将队列内部状态转换为 gauge 指标。
+ */
+function collectQueueGauges(): GaugeMetric[] {
+  const snapshot = getQueueMetricsSnapshot()
+
+  return [
+    {
+      name: 'video_jobs',
+      help: '本实例内存中各状态的任务数（已结束任务保留 24 小时）',
+      samples: (Object.keys(snapshot.jobsByStatus) as JobStatus[]).map((status) => ({
+        labels: { status },
+        value: snapshot.jobsByStatus[status],
+      })),
+    },
+    {
+      name: 'video_queue_depth',
+      help: '等待处理的任务数',
+      samples: [{ value: snapshot.queueDepth }],
+    },
+    {
+      name: 'video_queue_worker_active',
+      help: '队列 worker 是否在运行（1 为运行中）',
+      samples: [{ value: snapshot.workerActive ? 1 : 0 }],
+    },
+    {
+      name: 'video_queue_processing_jobs',
+      help: '正在处理的任务数',
+      samples: [{ value: snapshot.processingJobId ? 1 : 0 }],
+    },
+    {
+      name: 'video_queue_average_job_duration_seconds',
+      help: '最近任务的平均耗时，用于估算等待时间与卡死阈值',
+      samples: [{ value: snapshot.averageDurationMs / 1000 }],
+    },
+    {
+      name: 'video_queue_recent_duration_samples',
+      help: '参与平均耗时计算的样本数',
+      samples: [{ value: snapshot.recentDurations.length }],
+    },
+    {
+      name: 'video_queue_consecutive_stalled_jobs',
+      help: '连续卡死的任务数，达到阈值后打开熔断',
+      samples: [{ value: snapshot.consecutiveStalledJobs }],
+    },
+    {
+      name: 'video_queue_circuit_breaker_open',
+      help: '队列熔断是否生效（1 为生效）',
+      samples: [{ value: snapshot.circuitBreakerOpen ? 1 : 0 }],
+    },
+    {
+      name: 'video_queue_circuit_breaker_remaining_seconds',
+      help: '熔断剩余冷却时间',
+      samples: [{ value: snapshot.circuitBreakerRemainingMs / 1000 }],
+    },
+  ]
+}
+
+/**
+ * GET：输出 Prometheus 文本格式的指标。
+ *
+ * @param req - 原始 HTTP 请求，用于校验访问令牌
+ * @returns 指标文本；令牌不匹配时返回 401
+ */
+export async function handleMetrics(req: NextRequest) {
+  if (!isMetricsRequestAuthorized(req)) {
+    return NextResponse.json({ error: '未授权访问监控指标' }, { status: 401 })
+  }
+
+  return new NextResponse(renderPrometheusMetrics(collectQueueGauges()), {
+    headers: {
+      'Content-Type': PROMETHEUS_CONTENT_TYPE,
+      'Cache-Control': 'no-store',
+    },
+  })
+}
@@ -0,0 +1,9 @@
+/**
+ * 监控指标 API：路由入口
+ *
+ * 实际逻辑见 node-handler。
+ */
+
+export const runtime = 'nodejs'
+
+export { handleMetrics as GET } from './node-handler'
@@ -13,6 +13,16 @@ import fs from 'fs'
 import path from 'path'
 import { stat } from 'fs/promises'
 
+/**
+ * 按扩展名确定返回的 Content-Type（成片与封面图），未知扩展名按 MP4 处理。
+ */
+const CONTENT_TYPES_BY_EXTENSION: Record<string, string> = {
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.mov': 'video/quicktime',
+  '.jpg': 'image/jpeg',
+}
+
 /**
  * GET 请求处理器
  *
@@ -64,11 +74,11 @@ export async function handleOutputGet(
     console.log(`开始传输文件 ${filename}, 大小: ${(fileSize / 1024 / 1024).toFixed(2)} MB`)
 
     // 设置响应头
-    // Content-Type: 设置为 video/mp4
+    // Content-Type: 根据扩展名设置（mp4 / webm / mov / 封面 jpg）
     // Content-Length: 文件大小
     // Content-Disposition: 设置为 inline 以便浏览器内播放，或 attachment 强制下载
     const headers = new Headers()
-    headers.set('Content-Type', 'video/mp4')
+    headers.set('Content-Type', CONTENT_TYPES_BY_EXTENSION[path.extname(filename).toLowerCase()] ?? 'video/mp4')
     headers.set('Content-Length', fileSize.toString())
     headers.set('Content-Disposition', `inline; filename="${filename}"`)
     headers.set('Cache-Control', 'public, max-age=3600') // 缓存 1 小时
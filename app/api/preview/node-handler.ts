@@ -0,0 +1,192 @@
+/**
+ * 合成预览 API
+ *
+ * POST /api/preview 接收一个源视频与一组模板（与 /api/process 相同的远程文件描述）以及取帧时间点，
+ * 用与完整渲染相同的滤镜图为每个尺寸截取一帧 PNG，便于提交大批次前检查布局。
+ * 预览不经过队列、不编码成片，下载的素材在返回前删除；片头片尾不参与预览。
+ * 预览直接在请求中运行 FFmpeg，为避免与渲染 worker 抢占 CPU，每个用户同时只能有一个预览请求，
+ * 全实例同时进行的预览数不超过 MAX_CONCURRENT_PREVIEWS（默认 2），超出时返回 429。
+ * 客户端断开（或发起新预览而中止旧请求）时终止 FFmpeg 并立即释放名额。
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+
+import { deriveClientFingerprint } from '@/lib/client-identity'
+import { logger, runWithLogContext } from '@/lib/logger'
+import { requireOutputVariant } from '@/lib/output-variants'
+import {
+  probeMedia,
+  renderCompositePreview,
+  RenderCancelledError,
+  type TemplateDescriptor,
+  type VideoProcessorPayload,
+} from '@/lib/video-processor'
+import {
+  buildTemplateDescriptorFromRemoteAsset,
+  buildVideoDescriptors,
+  hasAtLeastOneTemplate,
+  parseRequestedTemplates,
+  ProcessRequestValidationError,
+  removeDownloadedFiles,
+  type TemplateInputPayload,
+  type VideoAssetPayload,
+} from '../process/node-handler'
+
+const DEFAULT_PREVIEW_SECONDS = 1
+const rawPreviewLimit = Number(process.env.MAX_CONCURRENT_PREVIEWS ?? 2)
+const MAX_CONCURRENT_PREVIEWS = Number.isFinite(rawPreviewLimit) && rawPreviewLimit >= 1 ? rawPreviewLimit : 2
+
+/**
+ * 进行中的预览请求：按用户记录，总数即全实例的并发数。
+ */
+interface PreviewSlots {
+  owners: Set<string>
+}
+
+const globalPreviewSlotsKey = Symbol.for('__videoPreviewSlots')
+
+const previewSlots: PreviewSlots =
+  ((globalThis as Record<PropertyKey, unknown>)[globalPreviewSlotsKey] as PreviewSlots | undefined) ??
+  ((globalThis as Record<PropertyKey, unknown>)[globalPreviewSlotsKey] = { owners: new Set() } satisfies PreviewSlots)
+
+interface PreviewRequestPayload {
+  video?: VideoAssetPayload
+  templates?: TemplateInputPayload
+  /** 取帧时间点（秒），缺省为 1 */
+  seconds?: unknown
+}
+
+/**
+ * 单个尺寸的预览结果；生成失败时只有 error。
+ */
+interface PreviewEntry {
+  variant: string
+  label: string
+  width?: number
+  height?: number
+  seconds?: number
+  /** `data:image/png;base64,...` */
+  image?: string
+  error?: string
+}
+
+/**
+ * 校验取帧时间点，缺省为 1 秒。
+ */
+function parsePreviewSeconds(raw: unknown): number {
+  if (raw === undefined || raw === null || raw === '') {
+    return DEFAULT_PREVIEW_SECONDS
+  }
+  const seconds = Number(raw)
+  if (!Number.isFinite(seconds) || seconds < 0) {
+    throw new ProcessRequestValidationError('seconds 必须是不小于 0 的秒数')
+  }
+  return seconds
+}
+
+/**
+ * 为每个尺寸依次截取预览帧；单个尺寸失败不影响其他尺寸，请求被中止时抛出 RenderCancelledError。
+ */
+async function renderPreviewEntries(
+  payload: VideoProcessorPayload,
+  seconds: number,
+  signal: AbortSignal,
+): Promise<PreviewEntry[]> {
+  const [video] = payload.videos
+  const source = await probeMedia(video.path)
+  const entries: PreviewEntry[] = []
+
+  for (const template of Object.values(payload.templates) as TemplateDescriptor[]) {
+    const { label } = requireOutputVariant(template.variant)
+    try {
+      const frame = await runWithLogContext({ variant: template.variant, phase: 'preview' }, () =>
+        renderCompositePreview(video, template, seconds, source, signal),
+      )
+      entries.push({
+        variant: frame.variant,
+        label,
+        width: frame.width,
+        height: frame.height,
+        seconds: frame.seconds,
+        image: `data:image/png;base64,${frame.png.toString('base64')}`,
+      })
+    } catch (error) {
+      if (error instanceof RenderCancelledError) {
+        throw error
+      }
+      logger.warn(`⚠️  ${label}预览帧生成失败`, { error })
+      entries.push({ variant: template.variant, label, error: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  return entries
+}
+
+/**
+ * POST：下载素材并返回每个尺寸的合成预览帧。
+ *
+ * @param req - 请求体为 `{ video, templates, seconds? }`
+ * @returns 各尺寸的 PNG data URL 或错误信息
+ */
+export async function handlePreviewPost(req: NextRequest) {
+  const { ownerId } = deriveClientFingerprint(req)
+  if (previewSlots.owners.has(ownerId)) {
+    return NextResponse.json({ error: '已有一个预览正在生成，请等待其完成后再试' }, { status: 429 })
+  }
+  if (previewSlots.owners.size >= MAX_CONCURRENT_PREVIEWS) {
+    return NextResponse.json({ error: '当前预览请求过多，请稍后再试' }, { status: 429 })
+  }
+
+  previewSlots.owners.add(ownerId)
+  const savedPaths: string[] = []
+  try {
+    logger.info('\n🖼️ 接收到合成预览请求')
+
+    const body = (await req.json()) as PreviewRequestPayload
+    if (!body?.video || typeof body.video !== 'object') {
+      return NextResponse.json({ error: '请求体必须包含一个视频引用' }, { status: 400 })
+    }
+    if (!hasAtLeastOneTemplate(body.templates)) {
+      return NextResponse.json({ error: '至少需要提供一种模板引用' }, { status: 400 })
+    }
+
+    const seconds = parsePreviewSeconds(body.seconds)
+    // 预览只截取合成主体，不必下载片头片尾
+    const requestedTemplates = parseRequestedTemplates(body.templates ?? {}).map((template) => ({
+      ...template,
+      intro: undefined,
+      outro: undefined,
+    }))
+
+    const payload: VideoProcessorPayload = { videos: await buildVideoDescriptors([body.video], savedPaths), templates: {} }
+    for (const template of requestedTemplates) {
+      const descriptor = await buildTemplateDescriptorFromRemoteAsset(template, savedPaths)
+      payload.templates[descriptor.variant] = descriptor
+    }
+
+    if (req.signal.aborted) {
+      throw new RenderCancelledError('预览请求已中止')
+    }
+    const previews = await renderPreviewEntries(payload, seconds, req.signal)
+    return NextResponse.json({ success: previews.every((entry) => !entry.error), seconds, previews })
+  } catch (error) {
+    if (error instanceof RenderCancelledError || req.signal.aborted) {
+      // 客户端已断开，响应不会被读取
+      logger.info('🛑 预览请求已中止，停止生成预览帧')
+      return new NextResponse(null, { status: 499 })
+    }
+    if (error instanceof ProcessRequestValidationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    logger.error('合成预览失败', { error })
+    return NextResponse.json(
+      { error: '合成预览失败', details: error instanceof Error ? error.message : String(error) },
+      { status: 500 },
+    )
+  } finally {
+    previewSlots.owners.delete(ownerId)
+    // 按下载记录清理，下载中途失败（例如字幕下载失败）时已保存的文件也会删除
+    await removeDownloadedFiles(savedPaths)
+  }
+}
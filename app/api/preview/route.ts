@@ -0,0 +1,9 @@
+/**
+ * 合成预览：路由入口
+ *
+ * 实际逻辑见 node-handler，POST /api/preview 为每个尺寸返回一帧合成预览 PNG。
+ */
+
+export const runtime = 'nodejs'
+
+export { handlePreviewPost as POST } from './node-handler'
@@ -0,0 +1,41 @@
+/**
+ * 失败任务调试包 API
+ *
+ * GET /api/process/:jobId/debug-bundle 以 zip 形式下载失败任务的调试包：
+ * 处理参数、模板元数据、输入文件及其 ffprobe 结果、FFmpeg 滤镜图与运行日志。
+ * 需要服务端开启 RETAIN_FAILED_JOB_INPUTS；调试包包含用户上传的原始素材，只对提交任务的用户（匿名指纹）开放。
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+
+import { deriveClientFingerprint } from '@/lib/client-identity'
+import { createDebugBundleArchiveStream, findDebugBundle } from '@/lib/debug-bundles'
+
+interface DebugBundleParams {
+  jobId: string
+}
+
+/**
+ * GET：下载任务调试包。
+ *
+ * @param req - 原始 HTTP 请求，用于计算 ownerId
+ * @param context - 包含 jobId 参数的上下文
+ * @returns zip 附件；调试包不存在、不属于当前用户或已过期时返回 404
+ */
+export async function handleProcessDebugBundle(req: NextRequest, context: { params: Promise<DebugBundleParams> }) {
+  const { jobId } = await context.params
+  const { ownerId } = deriveClientFingerprint(req)
+
+  // 调试包比任务快照保留得更久，这里以清单中记录的 ownerId 为准
+  const bundleDirectory = await findDebugBundle(jobId, ownerId)
+  if (!bundleDirectory) {
+    return NextResponse.json({ error: '调试包不存在或已被清理' }, { status: 404 })
+  }
+
+  const headers = new Headers()
+  headers.set('Content-Type', 'application/zip')
+  headers.set('Content-Disposition', `attachment; filename="job-${jobId}-debug.zip"`)
+  headers.set('Cache-Control', 'no-store')
+
+  return new NextResponse(createDebugBundleArchiveStream(bundleDirectory), { status: 200, headers })
+}
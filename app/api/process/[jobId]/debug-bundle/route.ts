@@ -0,0 +1,9 @@
+/**
+ * 失败任务调试包：路由入口
+ *
+ * 实际逻辑见 node-handler，GET /api/process/:jobId/debug-bundle 下载失败任务的调试包 zip。
+ */
+
+export const runtime = 'nodejs'
+
+export { handleProcessDebugBundle as GET } from './node-handler'
@@ -0,0 +1,100 @@
+/**
+ * 任务进度 SSE 推送
+ *
+ * GET /api/process/:jobId/events 以 Server-Sent Events 推送任务快照：
+ * 连接建立时立即推送一次当前快照，之后每当队列写出该任务的快照（状态、进度、单个输出完成、最终结果）
+ * 或排队位置变化时再次推送；任务结束后推送最终快照并关闭连接。
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+
+import { deriveClientFingerprint } from '@/lib/client-identity'
+import { subscribeJobSnapshots } from '@/lib/job-events'
+import { getJobSnapshot, isJobOwnedBy, type JobSnapshot, type JobStatus } from '@/lib/job-queue'
+import { readJobSnapshotFromStore } from '@/lib/job-store'
+
+import { serializeJobStatus } from '../node-handler'
+
+interface JobEventsParams {
+  jobId: string
+}
+
+/**
+ * 心跳间隔，避免代理或浏览器因长时间无数据而断开连接。
+ */
+const KEEPALIVE_INTERVAL_MS = 15 * 1000
+const FINISHED_JOB_STATUSES = new Set<JobStatus>(['completed', 'partial', 'failed', 'cancelled'])
+
+/**
+ * GET：建立 SSE 连接并持续推送任务快照。
+ *
+ * @param req - 原始 HTTP 请求，客户端断开时通过 req.signal 释放订阅
+ * @param context - 包含 jobId 参数的上下文
+ * @returns text/event-stream 响应；任务不存在时返回 404
+ */
+export async function handleProcessEvents(req: NextRequest, context: { params: Promise<JobEventsParams> }) {
+  const { jobId } = await context.params
+  const storedSnapshot = getJobSnapshot(jobId) ?? (await readJobSnapshotFromStore(jobId))
+
+  if (!storedSnapshot) {
+    return NextResponse.json({ error: '任务不存在或已过期' }, { status: 404 })
+  }
+
+  const isOwner = isJobOwnedBy(jobId, deriveClientFingerprint(req).ownerId)
+  const encoder = new TextEncoder()
+  let closeStream = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false
+
+      const close = () => {
+        if (closed) return
+        closed = true
+        unsubscribe()
+        clearInterval(keepaliveTimer)
+        req.signal.removeEventListener('abort', close)
+        try {
+          controller.close()
+        } catch {
+          // 客户端已断开时流可能已被关闭
+        }
+      }
+
+      const send = (snapshot: JobSnapshot) => {
+        if (closed) return
+        controller.enqueue(encoder.encode(`event: snapshot\ndata: ${JSON.stringify(serializeJobStatus(snapshot, isOwner))}\n\n`))
+        if (FINISHED_JOB_STATUSES.has(snapshot.status)) {
+          close()
+        }
+      }
+
+      const unsubscribe = subscribeJobSnapshots(jobId, send)
+      const keepaliveTimer = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(': keepalive\n\n'))
+      }, KEEPALIVE_INTERVAL_MS)
+      req.signal.addEventListener('abort', close)
+      closeStream = close
+
+      // 订阅建立后再取一次快照，避免错过读取存储期间发生的变化
+      const liveSnapshot = getJobSnapshot(jobId)
+      send(liveSnapshot ?? storedSnapshot)
+      // 任务不在本实例的队列中时不会再有推送，直接结束，由前端回退为轮询
+      if (!liveSnapshot) {
+        close()
+      }
+    },
+    cancel() {
+      closeStream()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  })
+}
@@ -0,0 +1,9 @@
+/**
+ * 任务进度 SSE 推送：路由入口
+ *
+ * 实际逻辑见 node-handler，前端通过 EventSource 订阅 GET /api/process/:jobId/events。
+ */
+
+export const runtime = 'nodejs'
+
+export { handleProcessEvents as GET } from './node-handler'
@@ -0,0 +1,48 @@
+/**
+ * 任务运行日志 API
+ *
+ * GET /api/process/:jobId/logs 以纯文本返回任务运行日志：入队、开始、结束等队列事件，
+ * 渲染过程中的日志，以及每次 FFmpeg 调用的完整命令与 stderr。
+ * 日志可能包含服务器路径，只对提交任务的用户（匿名指纹）开放。
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+
+import { deriveClientFingerprint } from '@/lib/client-identity'
+import { readJobLog } from '@/lib/job-logs'
+import { isJobOwnedBy } from '@/lib/job-queue'
+
+interface JobLogsParams {
+  jobId: string
+}
+
+/**
+ * GET：返回任务运行日志全文。
+ *
+ * @param req - 原始 HTTP 请求，用于计算 ownerId；带 `?download=1` 时以附件形式下载
+ * @param context - 包含 jobId 参数的上下文
+ * @returns 纯文本日志；任务不存在、不属于当前用户或日志已清理时返回 404
+ */
+export async function handleProcessLogs(req: NextRequest, context: { params: Promise<JobLogsParams> }) {
+  const { jobId } = await context.params
+  const { ownerId } = deriveClientFingerprint(req)
+
+  if (!isJobOwnedBy(jobId, ownerId)) {
+    return NextResponse.json({ error: '任务不存在或已过期' }, { status: 404 })
+  }
+
+  const log = await readJobLog(jobId)
+  if (log === null) {
+    return NextResponse.json({ error: '任务运行日志不存在或已被清理' }, { status: 404 })
+  }
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'text/plain; charset=utf-8',
+    'Cache-Control': 'no-store',
+  }
+  if (req.nextUrl.searchParams.get('download') === '1') {
+    headers['Content-Disposition'] = `attachment; filename="job-${jobId}.log"`
+  }
+
+  return new NextResponse(log, { headers })
+}
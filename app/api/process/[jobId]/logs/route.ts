@@ -0,0 +1,9 @@
+/**
+ * 任务运行日志：路由入口
+ *
+ * 实际逻辑见 node-handler，GET /api/process/:jobId/logs 返回该任务的日志与 FFmpeg 输出。
+ */
+
+export const runtime = 'nodejs'
+
+export { handleProcessLogs as GET } from './node-handler'
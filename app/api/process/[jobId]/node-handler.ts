@@ -1,27 +1,46 @@
 /**
- * 任务状态查询 API
+ * 任务状态查询 / 取消 API
  *
  * 前端可以通过 GET /api/process/:jobId 获取最新的任务快照，
- * 从而实现轮询或基于 SSE/WebSocket 的订阅。
+ * 从而实现轮询或基于 SSE/WebSocket 的订阅；
+ * 通过 DELETE /api/process/:jobId 取消自己提交的任务。
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 
-import { getJobSnapshot } from '@/lib/job-queue'
+import { deriveClientFingerprint } from '@/lib/client-identity'
+import { cancelJob, getJobSnapshot, isJobOwnedBy, type JobSnapshot } from '@/lib/job-queue'
 
 interface JobStatusParams {
   jobId: string
 }
 
+/**
+ * 将任务快照转换为接口响应：额外附带以秒为单位的等待时间，方便前端直接展示。
+ * 状态查询与 SSE 推送共用同一结构。
+ * 回调地址与投递记录只返回给提交任务的用户，拿到 jobId 的其他人看不到。
+ *
+ * @param job - 任务快照
+ * @param isOwner - 请求方是否为提交任务的用户
+ */
+export function serializeJobStatus(job: JobSnapshot, isOwner: boolean) {
+  return {
+    ...job,
+    webhook: isOwner ? job.webhook : undefined,
+    estimatedWaitSeconds: Math.max(0, Math.round(job.estimatedWaitMs / 1000)),
+    averageJobDurationSeconds: Math.max(1, Math.round(job.averageJobDurationMs / 1000)),
+  }
+}
+
 /**
  * GET：返回指定 jobId 的实时状态。
  *
- * @param _req - 原始 HTTP 请求（当前未使用，但保留以便未来扩展）
+ * @param req - 原始 HTTP 请求，用于判断请求方是否为任务所有者
  * @param context - 包含 jobId 参数的上下文
  * @returns 对应任务的快照或 404 错误
  */
 export async function handleProcessStatusGet(
-  _req: NextRequest,
+  req: NextRequest,
   context: { params: Promise<JobStatusParams> },
 ) {
   const { jobId } = await context.params
@@ -31,10 +50,31 @@ export async function handleProcessStatusGet(
     return NextResponse.json({ error: '任务不存在或已过期' }, { status: 404 })
   }
 
-  return NextResponse.json({
-    ...job,
-    estimatedWaitSeconds: Math.max(0, Math.round(job.estimatedWaitMs / 1000)),
-    averageJobDurationSeconds: Math.max(1, Math.round(job.averageJobDurationMs / 1000)),
-  })
+  const { ownerId } = deriveClientFingerprint(req)
+  return NextResponse.json(serializeJobStatus(job, isJobOwnedBy(jobId, ownerId)))
 }
 
+
+/**
+ * DELETE：取消指定任务。
+ * 排队中的任务直接出队，处理中的任务会终止 FFmpeg 进程并删除已生成的文件；
+ * 只能取消当前用户（匿名指纹）提交的任务，其他任务一律视为不存在。
+ *
+ * @param req - 原始 HTTP 请求，用于计算 ownerId
+ * @param context - 包含 jobId 参数的上下文
+ * @returns 取消后的任务快照；任务已结束时返回 409
+ */
+export async function handleProcessCancel(req: NextRequest, context: { params: Promise<JobStatusParams> }) {
+  const { jobId } = await context.params
+  const { ownerId } = deriveClientFingerprint(req)
+  const result = await cancelJob(jobId, ownerId)
+
+  if (result.outcome === 'not_found') {
+    return NextResponse.json({ error: '任务不存在或已过期' }, { status: 404 })
+  }
+  if (result.outcome === 'already_finished') {
+    return NextResponse.json({ error: '任务已结束，无法取消', job: result.snapshot }, { status: 409 })
+  }
+
+  return NextResponse.json(result.snapshot)
+}
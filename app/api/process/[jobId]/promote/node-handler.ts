@@ -0,0 +1,64 @@
+/**
+ * 草稿转正式渲染 API
+ *
+ * POST /api/process/:jobId/promote 把成功完成的草稿任务转为正式渲染：
+ * 复用草稿保留的上传素材，以完全相同的模板、布局、编码配置与封面设置创建一个 final 质量的新任务。
+ * 只能转换当前用户（匿名指纹）提交的草稿，每个草稿只能转换一次。
+ */
+
+import { waitUntil } from '@vercel/functions'
+import { NextRequest, NextResponse } from 'next/server'
+
+import { deriveClientFingerprint } from '@/lib/client-identity'
+import { ensureQueueWorkerRunning, getOwnerActiveJobCount, promoteDraftJob } from '@/lib/job-queue'
+
+import { serializeJobStatus } from '../node-handler'
+import { MAX_ACTIVE_JOBS_PER_OWNER } from '../../node-handler'
+
+interface PromoteParams {
+  jobId: string
+}
+
+/**
+ * POST：为草稿任务创建正式渲染任务。
+ *
+ * @param req - 原始 HTTP 请求，用于计算 ownerId
+ * @param context - 包含草稿 jobId 参数的上下文
+ * @returns 新任务的快照；草稿状态不允许转换时返回 409，素材已过期时返回 410
+ */
+export async function handleProcessPromote(req: NextRequest, context: { params: Promise<PromoteParams> }) {
+  const { jobId } = await context.params
+  const { ownerId } = deriveClientFingerprint(req)
+
+  const activeJobsForOwner = getOwnerActiveJobCount(ownerId)
+  if (activeJobsForOwner >= MAX_ACTIVE_JOBS_PER_OWNER) {
+    return NextResponse.json(
+      {
+        error: '任务排队过多',
+        details: `当前已有 ${activeJobsForOwner} 个任务正在排队/处理，请等待其中至少一个完成后再渲染正式版。`,
+        queueHint: {
+          ownerActiveJobs: activeJobsForOwner,
+          ownerJobLimit: MAX_ACTIVE_JOBS_PER_OWNER,
+        },
+      },
+      { status: 429 },
+    )
+  }
+
+  const result = promoteDraftJob(jobId, ownerId)
+  switch (result.outcome) {
+    case 'not_found':
+      return NextResponse.json({ error: '任务不存在或已过期' }, { status: 404 })
+    case 'not_draft':
+      return NextResponse.json({ error: '该任务不是草稿，无需转为正式渲染', job: result.snapshot }, { status: 409 })
+    case 'not_ready':
+      return NextResponse.json({ error: '草稿尚未成功完成，暂不能渲染正式版', job: result.snapshot }, { status: 409 })
+    case 'already_promoted':
+      return NextResponse.json({ error: '该草稿已转为正式渲染', job: result.snapshot }, { status: 409 })
+    case 'inputs_expired':
+      return NextResponse.json({ error: '草稿素材已过期清理，请重新提交', job: result.snapshot }, { status: 410 })
+  }
+
+  waitUntil(ensureQueueWorkerRunning())
+  return NextResponse.json(serializeJobStatus(result.snapshot, true))
+}
@@ -0,0 +1,9 @@
+/**
+ * 草稿转正式渲染：路由入口
+ *
+ * 实际逻辑见 node-handler，POST /api/process/:jobId/promote 以草稿的相同参数创建正式渲染任务。
+ */
+
+export const runtime = 'nodejs'
+
+export { handleProcessPromote as POST } from './node-handler'
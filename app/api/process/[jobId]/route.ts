@@ -1,17 +1,20 @@
 /**
- * 任务状态查询 API
+ * 任务状态查询 / 取消 API
  *
  * 前端可以通过 GET /api/process/:jobId 获取最新的任务快照，
- * 从而实现轮询或基于 SSE/WebSocket 的订阅。
+ * 从而实现轮询或基于 SSE/WebSocket 的订阅；DELETE 用于取消任务。
  */
 
 export const runtime = 'nodejs'
 
 import { NextRequest, NextResponse } from 'next/server'
 
-import { getJobSnapshot } from '@/lib/job-queue'
+import { deriveClientFingerprint } from '@/lib/client-identity'
+import { getJobSnapshot, isJobOwnedBy } from '@/lib/job-queue'
 import { readJobSnapshotFromStore } from '@/lib/job-store'
 
+import { serializeJobStatus } from './node-handler'
+
 interface JobStatusParams {
   jobId: string
 }
@@ -19,7 +22,7 @@ interface JobStatusParams {
 /**
  * GET：返回指定 jobId 的实时状态。
  */
-export async function GET(_req: NextRequest, context: { params: Promise<JobStatusParams> }) {
+export async function GET(req: NextRequest, context: { params: Promise<JobStatusParams> }) {
   const { jobId } = await context.params
   const job = getJobSnapshot(jobId) ?? (await readJobSnapshotFromStore(jobId))
 
@@ -27,10 +30,8 @@ export async function GET(_req: NextRequest, context: { params: Promise<JobStatu
     return NextResponse.json({ error: '任务不存在或已过期' }, { status: 404 })
   }
 
-  return NextResponse.json({
-    ...job,
-    estimatedWaitSeconds: Math.max(0, Math.round(job.estimatedWaitMs / 1000)),
-    averageJobDurationSeconds: Math.max(1, Math.round(job.averageJobDurationMs / 1000)),
-  })
+  const { ownerId } = deriveClientFingerprint(req)
+  return NextResponse.json(serializeJobStatus(job, isJobOwnedBy(jobId, ownerId)))
 }
 
+export { handleProcessCancel as DELETE } from './node-handler'
@@ -9,28 +9,63 @@
 
 import { waitUntil } from '@vercel/functions'
 import { NextRequest, NextResponse } from 'next/server'
-import { createHash, randomUUID } from 'node:crypto'
+import { randomUUID, timingSafeEqual } from 'node:crypto'
 import { createWriteStream } from 'node:fs'
+import { rm } from 'node:fs/promises'
 import { tmpdir } from 'node:os'
 import { extname, join } from 'node:path'
 import { Readable } from 'node:stream'
 import { pipeline } from 'node:stream/promises'
 import type { ReadableStream as WebReadableStream } from 'node:stream/web'
 
-import { enqueueJob, ensureQueueWorkerRunning, getOwnerActiveJobCount } from '@/lib/job-queue'
+import { deriveClientFingerprint } from '@/lib/client-identity'
+import { getEncodingProfile, listEncodingProfiles } from '@/lib/encoding-profiles'
 import {
+  cleanupPayloadFiles,
+  enqueueJob,
+  ensureQueueWorkerRunning,
+  getOwnerActiveJobCount,
+  type JobPriority,
+} from '@/lib/job-queue'
+import { logger } from '@/lib/logger'
+import { incrementCounter } from '@/lib/metrics'
+import { getOutputVariant, listOutputVariants, type OutputVariantDefinition } from '@/lib/output-variants'
+import { isWebhookSigningConfigured } from '@/lib/webhooks'
+import {
+  normalizeSubtitleStyle,
+  resolveSubtitleFormat,
+  type SubtitleFormat,
+  type SubtitleStyle,
+} from '@/lib/subtitles'
+import {
+  normalizeBackgroundFill,
+  normalizeTemplatePlacement,
+  type BackgroundFill,
+  type TemplatePlacement,
+} from '@/lib/template-layout'
+import {
+  planVideoBatch,
+  readBumperClip,
   readTemplateMetadata,
+  type BumperClip,
+  type PosterOptions,
+  type RenderQuality,
   type TemplateDescriptor,
-  type TemplateVariant,
+  type TemplateDurationPolicy,
   type UploadedVideoDescriptor,
   type VideoProcessorPayload,
 } from '@/lib/video-processor'
 
 const rawOwnerLimit = Number(process.env.MAX_ACTIVE_JOBS_PER_OWNER ?? 2)
-const MAX_ACTIVE_JOBS_PER_OWNER = Number.isFinite(rawOwnerLimit) && rawOwnerLimit >= 1 ? rawOwnerLimit : 2
+export const MAX_ACTIVE_JOBS_PER_OWNER = Number.isFinite(rawOwnerLimit) && rawOwnerLimit >= 1 ? rawOwnerLimit : 2
 const MAX_REMOTE_FILE_BYTES = 2 * 1024 * 1024 * 1024 // 2GB，只受限于 /tmp 和 ffmpeg
 const SUPPORTED_PROTOCOLS = new Set(['https:'])
 const LOOPBACK_HOSTS = new Set(['localhost', '127.0.0.1', '::1'])
+const TEMPLATE_DURATION_POLICIES: TemplateDurationPolicy[] = ['loop', 'hold', 'trim']
+const BUMPER_DURATION_RANGE = { min: 0.5, max: 30 }
+/** 提交 urgent 任务所需的令牌；未配置时所有请求只能使用 normal 优先级 */
+const URGENT_PRIORITY_TOKEN = process.env.URGENT_PRIORITY_TOKEN?.trim() || null
+const DRAFT_MAX_SECONDS_RANGE = { min: 1, max: 600 }
 const allowInsecureHttpSources =
   process.env.ALLOW_INSECURE_HTTP_SOURCES === 'true' ||
   (process.env.NODE_ENV !== 'production' && process.env.ALLOW_INSECURE_HTTP_SOURCES !== 'false')
@@ -42,15 +77,99 @@ interface RemoteAssetPayload {
   mimeType?: string
 }
 
-interface TemplateInputPayload {
-  vertical?: RemoteAssetPayload
-  square?: RemoteAssetPayload
-  landscape?: RemoteAssetPayload
+/**
+ * 字幕引用：远程字幕文件（SRT / ASS / VTT）及可选样式。
+ */
+interface SubtitleAssetPayload extends RemoteAssetPayload {
+  style?: unknown
+}
+
+/**
+ * 源视频引用：可附带一份需要烧录的字幕。
+ */
+export interface VideoAssetPayload extends RemoteAssetPayload {
+  subtitle?: SubtitleAssetPayload | null
+}
+
+/**
+ * 通过校验、等待下载的字幕引用。
+ */
+interface RequestedSubtitle {
+  asset: SubtitleAssetPayload
+  format: SubtitleFormat
+  style?: SubtitleStyle
+}
+
+/**
+ * 模板引用：在远程文件描述之外，可附带源视频窗口的放置规则、时长策略、留白填充方式与片头片尾。
+ */
+interface TemplateAssetPayload extends RemoteAssetPayload {
+  placement?: unknown
+  durationPolicy?: unknown
+  background?: unknown
+  intro?: unknown
+  outro?: unknown
+}
+
+/**
+ * 通过校验、等待下载的片头 / 片尾引用；图片素材的时长由 durationSeconds 指定。
+ */
+interface RequestedBumper {
+  asset: RemoteAssetPayload
+  durationSeconds?: number
+}
+
+/**
+ * 校验后的留白填充方式；图片模式在下载前只保留远程文件描述。
+ */
+type TemplateBackgroundRequest =
+  | Exclude<BackgroundFill, { mode: 'image' }>
+  | { mode: 'image'; image: RemoteAssetPayload }
+
+/**
+ * 通过同步校验、等待下载的模板引用。
+ */
+export interface RequestedTemplate {
+  definition: OutputVariantDefinition
+  asset: TemplateAssetPayload
+  label: string
+  placement: TemplatePlacement | undefined
+  durationPolicy: TemplateDurationPolicy | undefined
+  background: TemplateBackgroundRequest | undefined
+  intro: RequestedBumper | undefined
+  outro: RequestedBumper | undefined
 }
 
+/**
+ * 以输出尺寸 id（见 `lib/output-variants.ts`）为键的模板引用集合。
+ */
+export type TemplateInputPayload = Record<string, TemplateAssetPayload | undefined>
+
 interface ProcessRequestPayload {
-  videos?: RemoteAssetPayload[]
+  videos?: VideoAssetPayload[]
   templates?: TemplateInputPayload
+  /** 编码配置 id，缺省为 Master H.264 */
+  encodingProfile?: string
+  /** 封面取帧方式，缺省为 best */
+  poster?: unknown
+  /** 任务优先级：normal（缺省）/ urgent */
+  priority?: unknown
+  /** 渲染质量：final（缺省）/ draft，或 { tier: 'draft', maxSeconds } */
+  quality?: unknown
+  /** 任务结束后接收签名回调的地址 */
+  callbackUrl?: unknown
+}
+
+/**
+ * 请求参数校验失败时抛出的错误，携带应返回给前端的 HTTP 状态码。
+ */
+export class ProcessRequestValidationError extends Error {
+  public readonly status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.status = status
+  }
 }
 
 /**
@@ -74,55 +193,37 @@ function formatBytes(bytes?: number | null): string {
 }
 
 /**
- * 解析请求中的来源 IP：优先使用代理透传的 X-Forwarded-For，其次使用 X-Real-IP。
- *
- * @param req - 来自 Next.js 的请求对象
- * @returns 字符串形式的 IP 地址，若无法识别则返回 'unknown'
- */
-function resolveClientIp(req: NextRequest): string {
-  const forwardedFor = req.headers.get('x-forwarded-for')
-  if (forwardedFor) {
-    const firstIp = forwardedFor.split(',')[0]?.trim()
-    if (firstIp) {
-      return firstIp
-    }
-  }
-  const realIp = req.headers.get('x-real-ip')
-  if (realIp) {
-    return realIp.trim()
-  }
-  return 'unknown'
-}
-
-/**
- * 基于 IP、User-Agent、Accept-Language 计算一个稳定的匿名指纹，
- * 既能用于公平队列，又避免直接存储用户隐私。
+ * 判断模板对象中是否至少包含一个有效的引用。
  *
- * @param req - 当前 HTTP 请求
- * @returns 包含 ownerId（匿名指纹）和原始 IP 的对象
+ * @param templates - 前端传入的模板引用集合
+ * @returns 若存在任意模板则返回 true
  */
-function deriveClientFingerprint(req: NextRequest): { ownerId: string; sourceIp: string } {
-  const sourceIp = resolveClientIp(req)
-  const userAgent = req.headers.get('user-agent') ?? 'unknown-agent'
-  const acceptLanguage = req.headers.get('accept-language') ?? 'unknown-lang'
-  const rawFingerprint = `${sourceIp}|${userAgent}|${acceptLanguage}`
-  const hash = createHash('sha256').update(rawFingerprint).digest('hex')
-
-  return {
-    ownerId: `anon_${hash.slice(0, 16)}`,
-    sourceIp,
-  }
+export function hasAtLeastOneTemplate(templates?: TemplateInputPayload): boolean {
+  if (!templates || typeof templates !== 'object') return false
+  return Object.values(templates).some(Boolean)
 }
 
 /**
- * 判断模板对象中是否至少包含一个有效的引用。
+ * 校验模板集合中的键都是已注册的输出尺寸，并按注册顺序返回需要渲染的尺寸。
  *
  * @param templates - 前端传入的模板引用集合
- * @returns 若存在任意模板则返回 true
+ * @returns 需要渲染的尺寸定义及对应的模板引用
  */
-function hasAtLeastOneTemplate(templates?: TemplateInputPayload): boolean {
-  if (!templates) return false
-  return Boolean(templates.vertical || templates.square || templates.landscape)
+function resolveRequestedVariants(
+  templates: TemplateInputPayload,
+): Array<{ definition: OutputVariantDefinition; asset: TemplateAssetPayload }> {
+  const unknownVariants = Object.keys(templates).filter((variant) => templates[variant] && !getOutputVariant(variant))
+  if (unknownVariants.length > 0) {
+    const supported = listOutputVariants()
+      .map((definition) => definition.id)
+      .join(' / ')
+    throw new ProcessRequestValidationError(`不支持的输出尺寸: ${unknownVariants.join(', ')}，可选值: ${supported}`)
+  }
+
+  return listOutputVariants().flatMap((definition) => {
+    const asset = templates[definition.id]
+    return asset ? [{ definition, asset }] : []
+  })
 }
 
 /**
@@ -130,11 +231,13 @@ function hasAtLeastOneTemplate(templates?: TemplateInputPayload): boolean {
  *
  * @param asset - 来自前端的远程文件描述
  * @param label - 用于日志的友好标签
+ * @param savedPaths - 记录已写入磁盘的路径（含下载中断的半截文件），请求失败时据此清理
  * @returns 本地路径与原始文件名
  */
 async function persistRemoteAsset(
   asset: RemoteAssetPayload,
   label: string,
+  savedPaths?: string[],
 ): Promise<{ path: string; originalName: string }> {
   const normalizedUrl = asset.url?.trim()
   const normalizedName = asset.originalName?.trim()
@@ -167,7 +270,7 @@ async function persistRemoteAsset(
     throw new Error(`${label} 仅支持 HTTPS 资源，当前协议: ${parsedUrl.protocol}。${hint}`)
   }
 
-  console.log(`⬇️ 正在下载 ${label}: ${normalizedName} (${formatBytes(normalizedSize)})`)
+  logger.info(`⬇️ 正在下载 ${label}: ${normalizedName} (${formatBytes(normalizedSize)})`)
   const response = await fetch(parsedUrl, {
     headers: asset.mimeType ? { 'content-type': asset.mimeType } : undefined,
     cache: 'no-store',
@@ -180,11 +283,13 @@ async function persistRemoteAsset(
   const safeExtension = extname(normalizedName) || ''
   const safePrefix = label.replace(/\s+/g, '_').toLowerCase()
   const tempPath = join(tmpdir(), `${safePrefix}_${randomUUID()}${safeExtension}`)
+  savedPaths?.push(tempPath)
   const writable = createWriteStream(tempPath)
   const readable = Readable.fromWeb(response.body as WebReadableStream)
 
   await pipeline(readable, writable)
-  console.log(`✅ ${label} 已保存到 ${tempPath}`)
+  incrementCounter('video_remote_download_bytes_total', {}, writable.bytesWritten)
+  logger.info(`✅ ${label} 已保存到 ${tempPath}`)
 
   return {
     path: tempPath,
@@ -193,59 +298,422 @@ async function persistRemoteAsset(
 }
 
 /**
- * 将远程模板描述转换为处理器可识别的结构，并读取其元数据。
+ * 校验模板附带的放置规则；未提供时返回 undefined，由处理器使用默认布局。
+ */
+function parseTemplatePlacement(
+  asset: TemplateAssetPayload,
+  definition: OutputVariantDefinition,
+  label: string,
+): TemplatePlacement | undefined {
+  if (asset.placement === undefined || asset.placement === null) {
+    return undefined
+  }
+
+  try {
+    return normalizeTemplatePlacement(asset.placement, definition.canvas)
+  } catch (error) {
+    throw new ProcessRequestValidationError(`${label} ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+/**
+ * 校验模板的时长策略；未提供时返回 undefined，由处理器使用默认的 loop。
+ */
+function parseTemplateDurationPolicy(asset: TemplateAssetPayload, label: string): TemplateDurationPolicy | undefined {
+  if (asset.durationPolicy === undefined || asset.durationPolicy === null || asset.durationPolicy === '') {
+    return undefined
+  }
+
+  if (!TEMPLATE_DURATION_POLICIES.includes(asset.durationPolicy as TemplateDurationPolicy)) {
+    throw new ProcessRequestValidationError(
+      `${label} 的 durationPolicy 仅支持 ${TEMPLATE_DURATION_POLICIES.join(' / ')}`,
+    )
+  }
+
+  return asset.durationPolicy as TemplateDurationPolicy
+}
+
+/**
+ * 校验模板的留白填充方式；未提供时返回 undefined，由处理器使用黑色填充。
+ * 图片模式要求 `background.image` 为与模板相同结构的远程文件描述，下载放在后续步骤。
+ */
+function parseTemplateBackground(asset: TemplateAssetPayload, label: string): TemplateBackgroundRequest | undefined {
+  const raw = asset.background
+  if (raw === undefined || raw === null) {
+    return undefined
+  }
+
+  if (typeof raw === 'object' && (raw as { mode?: unknown }).mode === 'image') {
+    const image = (raw as { image?: Partial<RemoteAssetPayload> }).image
+    if (!image || typeof image.url !== 'string' || typeof image.originalName !== 'string') {
+      throw new ProcessRequestValidationError(`${label} 的 background.image 必须包含 url 与 originalName`)
+    }
+    return { mode: 'image', image: image as RemoteAssetPayload }
+  }
+
+  try {
+    return normalizeBackgroundFill(raw) as Exclude<BackgroundFill, { mode: 'image' }>
+  } catch (error) {
+    throw new ProcessRequestValidationError(`${label} ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+/**
+ * 校验模板的片头或片尾引用；未提供时返回 undefined。
+ */
+function parseTemplateBumper(
+  asset: TemplateAssetPayload,
+  field: 'intro' | 'outro',
+  label: string,
+): RequestedBumper | undefined {
+  const raw = asset[field]
+  if (raw === undefined || raw === null) {
+    return undefined
+  }
+
+  const bumper = raw as Partial<RemoteAssetPayload> & { durationSeconds?: unknown }
+  if (typeof bumper !== 'object' || typeof bumper.url !== 'string' || typeof bumper.originalName !== 'string') {
+    throw new ProcessRequestValidationError(`${label} 的 ${field} 必须包含 url 与 originalName`)
+  }
+
+  if (bumper.durationSeconds === undefined || bumper.durationSeconds === null) {
+    return { asset: bumper as RemoteAssetPayload }
+  }
+
+  const durationSeconds = Number(bumper.durationSeconds)
+  if (
+    !Number.isFinite(durationSeconds) ||
+    durationSeconds < BUMPER_DURATION_RANGE.min ||
+    durationSeconds > BUMPER_DURATION_RANGE.max
+  ) {
+    throw new ProcessRequestValidationError(
+      `${label} 的 ${field}.durationSeconds 必须在 ${BUMPER_DURATION_RANGE.min}-${BUMPER_DURATION_RANGE.max} 秒之间`,
+    )
+  }
+  return { asset: bumper as RemoteAssetPayload, durationSeconds }
+}
+
+/**
+ * 下载片头 / 片尾并读取时长与音轨信息；素材无法解析时视为请求错误。
  */
-async function buildTemplateDescriptorFromRemoteAsset(
-  asset: RemoteAssetPayload | undefined,
-  variant: TemplateVariant,
+async function buildBumperClip(
+  bumper: RequestedBumper | undefined,
   label: string,
-): Promise<TemplateDescriptor | undefined> {
-  if (!asset) {
+  savedPaths?: string[],
+): Promise<BumperClip | undefined> {
+  if (!bumper) {
+    return undefined
+  }
+
+  const persisted = await persistRemoteAsset(bumper.asset, label, savedPaths)
+  try {
+    return await readBumperClip(label, persisted.path, persisted.originalName, bumper.durationSeconds)
+  } catch (error) {
+    throw new ProcessRequestValidationError(error instanceof Error ? error.message : String(error))
+  }
+}
+
+/**
+ * 校验请求中的编码配置 id；未提供时返回 undefined，由处理器使用默认配置。
+ */
+function parseEncodingProfileId(raw: unknown): string | undefined {
+  if (raw === undefined || raw === null || raw === '') {
+    return undefined
+  }
+
+  if (typeof raw !== 'string' || !getEncodingProfile(raw.trim())) {
+    const supported = listEncodingProfiles()
+      .map((profile) => profile.id)
+      .join(' / ')
+    throw new ProcessRequestValidationError(`未知的编码配置: ${String(raw)}，可选值: ${supported}`)
+  }
+
+  return raw.trim()
+}
+
+/**
+ * 校验源视频附带的字幕；未提供时返回 undefined。
+ * 下载前先确认格式与样式合法，避免下载大文件后才发现参数错误。
+ */
+function parseVideoSubtitle(video: VideoAssetPayload, label: string): RequestedSubtitle | undefined {
+  const subtitle = video.subtitle
+  if (subtitle === undefined || subtitle === null) {
+    return undefined
+  }
+
+  const format = typeof subtitle.originalName === 'string' ? resolveSubtitleFormat(subtitle.originalName) : null
+  if (!format) {
+    throw new ProcessRequestValidationError(`${label} 的字幕仅支持 .srt / .ass / .vtt 文件`)
+  }
+
+  try {
+    return { asset: subtitle, format, style: normalizeSubtitleStyle(subtitle.style) }
+  } catch (error) {
+    throw new ProcessRequestValidationError(`${label} ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+/**
+ * 校验封面取帧方式；未提供时返回 undefined，由处理器自动挑选代表帧。
+ */
+function parsePosterOptions(raw: unknown): PosterOptions | undefined {
+  if (raw === undefined || raw === null) {
+    return undefined
+  }
+
+  const input = (typeof raw === 'object' ? raw : {}) as { mode?: unknown; seconds?: unknown }
+  if (input.mode === 'best') {
+    return { mode: 'best' }
+  }
+  if (input.mode === 'timestamp') {
+    const seconds = Number(input.seconds)
+    if (!Number.isFinite(seconds) || seconds < 0) {
+      throw new ProcessRequestValidationError('poster.seconds 必须是不小于 0 的秒数')
+    }
+    return { mode: 'timestamp', seconds }
+  }
+
+  throw new ProcessRequestValidationError('poster.mode 仅支持 best / timestamp')
+}
+
+/**
+ * 校验请求头 `X-Priority-Token` 是否与服务端配置的 URGENT_PRIORITY_TOKEN 一致。
+ */
+function isUrgentPriorityAuthorized(req: NextRequest): boolean {
+  if (!URGENT_PRIORITY_TOKEN) {
+    return false
+  }
+
+  const provided = Buffer.from(req.headers.get('x-priority-token')?.trim() ?? '')
+  const expected = Buffer.from(URGENT_PRIORITY_TOKEN)
+  return provided.length === expected.length && timingSafeEqual(provided, expected)
+}
+
+/**
+ * 校验任务优先级，缺省为 normal。
+ * urgent 会整体插到其他用户前面，只允许携带有效令牌的调用方使用，匿名请求返回 403。
+ */
+function parseJobPriority(raw: unknown, req: NextRequest): JobPriority {
+  if (raw === undefined || raw === null || raw === 'normal') {
+    return 'normal'
+  }
+  if (raw === 'urgent') {
+    if (!isUrgentPriorityAuthorized(req)) {
+      throw new ProcessRequestValidationError(
+        URGENT_PRIORITY_TOKEN
+          ? 'urgent 优先级需要在请求头 X-Priority-Token 中提供有效令牌'
+          : '服务端未配置 URGENT_PRIORITY_TOKEN，暂不支持 urgent 优先级',
+        403,
+      )
+    }
+    return 'urgent'
+  }
+  throw new ProcessRequestValidationError('priority 仅支持 normal / urgent')
+}
+
+/**
+ * 校验渲染质量，缺省为 final。支持直接传 'final' / 'draft'，
+ * 或 `{ tier: 'draft', maxSeconds }` 只渲染成片的前若干秒。
+ */
+function parseRenderQuality(raw: unknown): RenderQuality {
+  if (raw === undefined || raw === null || raw === 'final') {
+    return { tier: 'final' }
+  }
+  if (raw === 'draft') {
+    return { tier: 'draft' }
+  }
+
+  const input = (typeof raw === 'object' ? raw : {}) as { tier?: unknown; maxSeconds?: unknown }
+  if (input.tier === 'final') {
+    return { tier: 'final' }
+  }
+  if (input.tier !== 'draft') {
+    throw new ProcessRequestValidationError('quality 仅支持 final / draft')
+  }
+  if (input.maxSeconds === undefined || input.maxSeconds === null) {
+    return { tier: 'draft' }
+  }
+
+  const maxSeconds = Number(input.maxSeconds)
+  if (
+    !Number.isFinite(maxSeconds) ||
+    maxSeconds < DRAFT_MAX_SECONDS_RANGE.min ||
+    maxSeconds > DRAFT_MAX_SECONDS_RANGE.max
+  ) {
+    throw new ProcessRequestValidationError(
+      `quality.maxSeconds 必须在 ${DRAFT_MAX_SECONDS_RANGE.min}-${DRAFT_MAX_SECONDS_RANGE.max} 秒之间`,
+    )
+  }
+  return { tier: 'draft', maxSeconds }
+}
+
+/**
+ * 校验任务结束回调地址：与远程素材相同，仅允许 HTTPS（开发环境额外允许本机 HTTP），
+ * 且服务端必须配置签名密钥。
+ */
+function parseCallbackUrl(raw: unknown): string | undefined {
+  if (raw === undefined || raw === null || raw === '') {
     return undefined
   }
+  if (typeof raw !== 'string') {
+    throw new ProcessRequestValidationError('callbackUrl 必须是字符串')
+  }
+  if (!isWebhookSigningConfigured()) {
+    throw new ProcessRequestValidationError('服务端未配置 WEBHOOK_SIGNING_SECRET，暂不支持 callbackUrl')
+  }
+
+  let parsedUrl: URL
+  try {
+    parsedUrl = new URL(raw.trim())
+  } catch {
+    throw new ProcessRequestValidationError('callbackUrl 无法解析，请确认它是有效的 HTTPS 地址')
+  }
+
+  const isHttps = SUPPORTED_PROTOCOLS.has(parsedUrl.protocol)
+  const isLoopbackHttp = allowInsecureHttpSources && parsedUrl.protocol === 'http:' && LOOPBACK_HOSTS.has(parsedUrl.hostname)
+  if (!isHttps && !isLoopbackHttp) {
+    throw new ProcessRequestValidationError(`callbackUrl 仅支持 HTTPS 地址，当前协议: ${parsedUrl.protocol}`)
+  }
+  return parsedUrl.toString()
+}
+
+/**
+ * 同步校验全部模板引用（尺寸、放置规则、时长策略、留白填充、片头片尾），在下载任何文件之前发现参数错误。
+ *
+ * @param templates - 前端传入的模板引用集合
+ * @returns 按注册顺序排列、等待下载的模板引用
+ */
+export function parseRequestedTemplates(templates: TemplateInputPayload): RequestedTemplate[] {
+  return resolveRequestedVariants(templates).map(({ definition, asset }): RequestedTemplate => {
+    const label = `${definition.label}模板`
+    return {
+      definition,
+      asset,
+      label,
+      placement: parseTemplatePlacement(asset, definition, label),
+      durationPolicy: parseTemplateDurationPolicy(asset, label),
+      background: parseTemplateBackground(asset, label),
+      intro: parseTemplateBumper(asset, 'intro', label),
+      outro: parseTemplateBumper(asset, 'outro', label),
+    }
+  })
+}
 
-  const persisted = await persistRemoteAsset(asset, label)
+/**
+ * 将远程模板描述转换为处理器可识别的结构，并读取其元数据。
+ *
+ * @param savedPaths - 记录已下载文件的路径，供调用方在请求失败时清理
+ */
+export async function buildTemplateDescriptorFromRemoteAsset(
+  { asset, definition, label, placement, durationPolicy, background, intro, outro }: RequestedTemplate,
+  savedPaths?: string[],
+): Promise<TemplateDescriptor> {
+  const persisted = await persistRemoteAsset(asset, label, savedPaths)
   const metadata = await readTemplateMetadata(label, persisted.path)
 
+  const backgroundFill: BackgroundFill | undefined =
+    background?.mode === 'image'
+      ? { mode: 'image', ...(await persistRemoteAsset(background.image, `${label}背景图`, savedPaths)) }
+      : background
+
   return {
     path: persisted.path,
     originalName: persisted.originalName,
-    variant,
+    variant: definition.id,
     metadata,
+    placement,
+    durationPolicy,
+    background: backgroundFill,
+    intro: await buildBumperClip(intro, `${label}片头`, savedPaths),
+    outro: await buildBumperClip(outro, `${label}片尾`, savedPaths),
   }
 }
 
 /**
  * 下载所有竖版视频，并产出后端队列所需的数据结构。
+ *
+ * @param savedPaths - 记录已下载文件的路径，供调用方在请求失败时清理
  */
-async function buildVideoDescriptors(videos: RemoteAssetPayload[]): Promise<UploadedVideoDescriptor[]> {
+export async function buildVideoDescriptors(
+  videos: VideoAssetPayload[],
+  savedPaths?: string[],
+): Promise<UploadedVideoDescriptor[]> {
   const descriptors: UploadedVideoDescriptor[] = []
+  const subtitles = videos.map((video, index) => parseVideoSubtitle(video, `竖版视频 #${index + 1}`))
 
   for (let index = 0; index < videos.length; index += 1) {
     const video = videos[index]
     const label = `竖版视频 #${index + 1}`
-    const persisted = await persistRemoteAsset(video, label)
+    const persisted = await persistRemoteAsset(video, label, savedPaths)
+    const subtitle = subtitles[index]
+    const persistedSubtitle = subtitle
+      ? await persistRemoteAsset(subtitle.asset, `${label}字幕`, savedPaths)
+      : undefined
     descriptors.push({
       path: persisted.path,
       originalName: persisted.originalName,
+      subtitle:
+        subtitle && persistedSubtitle
+          ? { ...persistedSubtitle, format: subtitle.format, style: subtitle.style }
+          : undefined,
     })
   }
 
   return descriptors
 }
 
+/**
+ * 删除请求处理过程中已下载的文件；任务入队后文件归队列所有，只在请求失败时调用。
+ */
+export async function removeDownloadedFiles(savedPaths: string[]): Promise<void> {
+  for (const filePath of savedPaths) {
+    try {
+      await rm(filePath, { force: true })
+    } catch (error) {
+      logger.warn(`⚠️  清理临时文件失败: ${filePath}`, { error })
+    }
+  }
+}
+
+/**
+ * 等待全部模板下载完成后再返回；任一模板失败时，其余仍在下载的文件也已落盘，调用方可一并清理。
+ */
+async function buildTemplateDescriptors(
+  requestedTemplates: RequestedTemplate[],
+  savedPaths: string[],
+): Promise<TemplateDescriptor[]> {
+  const settled = await Promise.allSettled(
+    requestedTemplates.map((template) => buildTemplateDescriptorFromRemoteAsset(template, savedPaths)),
+  )
+  const rejected = settled.find((result): result is PromiseRejectedResult => result.status === 'rejected')
+  if (rejected) {
+    throw rejected.reason
+  }
+  return settled.map((result) => (result as PromiseFulfilledResult<TemplateDescriptor>).value)
+}
+
+/**
+ * 是否为试运行请求：`?dryRun=1` 或 `?dryRun=true`。
+ */
+function isDryRunRequest(req: NextRequest): boolean {
+  const dryRun = req.nextUrl.searchParams.get('dryRun')
+  return dryRun === '1' || dryRun === 'true'
+}
+
 /**
  * POST 请求：接收远程文件引用，生成队列任务并返回任务 ID。
+ * 带 `?dryRun=1` 时只下载并探测素材，返回渲染计划（分辨率、时长、滤镜图、FFmpeg 参数），不入队也不编码。
  *
  * @param req - 来自 Next.js 的请求对象
- * @returns 包含任务快照或错误信息的 JSON 响应
+ * @returns 包含任务快照、渲染计划或错误信息的 JSON 响应
  */
 export async function handleProcessPost(req: NextRequest) {
+  const dryRun = isDryRunRequest(req)
+  const savedPaths: string[] = []
   try {
-    console.log('\n========================================')
-    console.log('📹 接收到视频批量渲染请求（Blob 上传模式）')
-    console.log('时间:', new Date().toLocaleString('zh-CN'))
-    console.log('========================================\n')
+    logger.info(
+      dryRun ? '\n🧪 接收到视频批量渲染试运行请求（Blob 上传模式）' : '\n📹 接收到视频批量渲染请求（Blob 上传模式）',
+    )
 
     const payload = (await req.json()) as ProcessRequestPayload
     if (!payload || !Array.isArray(payload.videos) || payload.videos.length === 0) {
@@ -259,7 +727,8 @@ export async function handleProcessPost(req: NextRequest) {
     const clientIdentity = deriveClientFingerprint(req)
     const activeJobsForOwner = getOwnerActiveJobCount(clientIdentity.ownerId)
 
-    if (activeJobsForOwner >= MAX_ACTIVE_JOBS_PER_OWNER) {
+    // 试运行不占用队列名额
+    if (!dryRun && activeJobsForOwner >= MAX_ACTIVE_JOBS_PER_OWNER) {
       return NextResponse.json(
         {
           error: '任务排队过多',
@@ -273,24 +742,41 @@ export async function handleProcessPost(req: NextRequest) {
       )
     }
 
-    const videoDescriptors = await buildVideoDescriptors(payload.videos)
-    const templatesInput = payload.templates ?? {}
-    const [verticalTemplate, squareTemplate, landscapeTemplate] = await Promise.all([
-      buildTemplateDescriptorFromRemoteAsset(templatesInput.vertical, 'vertical', '竖版模板'),
-      buildTemplateDescriptorFromRemoteAsset(templatesInput.square, 'square', '方版模板'),
-      buildTemplateDescriptorFromRemoteAsset(templatesInput.landscape, 'landscape', '横版模板'),
-    ])
+    const encodingProfileId = parseEncodingProfileId(payload.encodingProfile)
+    const posterOptions = parsePosterOptions(payload.poster)
+    const priority = parseJobPriority(payload.priority, req)
+    const quality = parseRenderQuality(payload.quality)
+    const callbackUrl = parseCallbackUrl(payload.callbackUrl)
+    const requestedTemplates = parseRequestedTemplates(payload.templates ?? {})
+
+    const videoDescriptors = await buildVideoDescriptors(payload.videos, savedPaths)
+    const templateDescriptors = await buildTemplateDescriptors(requestedTemplates, savedPaths)
 
     const jobPayload: VideoProcessorPayload = {
       videos: videoDescriptors,
-      templates: {
-        vertical: verticalTemplate,
-        square: squareTemplate,
-        landscape: landscapeTemplate,
-      },
+      templates: Object.fromEntries(templateDescriptors.map((descriptor) => [descriptor.variant, descriptor])),
+      encodingProfileId,
+      poster: posterOptions,
+      quality,
+    }
+
+    if (dryRun) {
+      try {
+        const plan = await planVideoBatch(jobPayload)
+        return NextResponse.json({ success: true, dryRun: true, plan })
+      } finally {
+        await cleanupPayloadFiles(jobPayload)
+      }
     }
 
-    const jobSnapshot = enqueueJob(jobPayload, { ownerId: clientIdentity.ownerId })
+    const jobSnapshot = enqueueJob(jobPayload, {
+      ownerId: clientIdentity.ownerId,
+      priority,
+      callbackUrl,
+      publicBaseUrl: process.env.PUBLIC_BASE_URL?.trim() || req.nextUrl.origin,
+    })
+    // 素材已归任务所有，由队列在任务结束后清理
+    savedPaths.length = 0
     waitUntil(ensureQueueWorkerRunning())
     const ownerActiveJobs = getOwnerActiveJobCount(clientIdentity.ownerId)
 
@@ -300,6 +786,7 @@ export async function handleProcessPost(req: NextRequest) {
       jobId: jobSnapshot.id,
       status: jobSnapshot.status,
       progress: jobSnapshot.progress,
+      priority: jobSnapshot.priority,
       queuePosition: jobSnapshot.queuePosition,
       estimatedWaitMs: jobSnapshot.estimatedWaitMs,
       estimatedWaitSeconds: Math.max(0, Math.round(jobSnapshot.estimatedWaitMs / 1000)),
@@ -307,12 +794,21 @@ export async function handleProcessPost(req: NextRequest) {
       averageJobDurationSeconds: Math.max(1, Math.round(jobSnapshot.averageJobDurationMs / 1000)),
       ownerActiveJobs,
       ownerJobLimit: MAX_ACTIVE_JOBS_PER_OWNER,
+      encodingProfile: jobSnapshot.encodingProfile,
+      quality: jobSnapshot.quality,
       metrics: jobSnapshot.metrics,
     })
   } catch (error) {
-    console.error('处理失败:', error)
+    // 入队前失败：已下载的素材（含校验失败的片头片尾）不会再被任何任务使用
+    await removeDownloadedFiles(savedPaths)
+
+    if (error instanceof ProcessRequestValidationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    logger.error('处理失败', { error })
     return NextResponse.json(
-      { error: '视频任务入队失败', details: error instanceof Error ? error.message : String(error) },
+      { error: dryRun ? '视频任务试运行失败' : '视频任务入队失败', details: error instanceof Error ? error.message : String(error) },
       { status: 500 },
     )
   }
@@ -0,0 +1,298 @@
+"use client"
+
+/**
+ * 任务历史页：列出当前用户提交过的任务（排队中、处理中与已结束），提供成片下载入口。
+ * 关闭首页后可在这里找回任务。
+ */
+
+import Link from "next/link"
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Progress } from "@/components/ui/progress"
+import { JobStatusBadge, type JobStatus } from "@/components/job-status-badge"
+import { useToast } from "@/hooks/use-toast"
+import { getOutputVariant } from "@/lib/output-variants"
+import { ArrowLeft, Download, History, RefreshCw } from "lucide-react"
+
+interface JobListItem {
+  id: string
+  status: JobStatus
+  progress: number
+  createdAt: number
+  finishedAt: number | null
+  queuePosition: number
+  estimatedWaitSeconds: number
+  message?: string
+  error?: string
+  encodingProfile: { label: string }
+  quality?: { tier: "final" | "draft" }
+  promotedJobId?: string | null
+  result?: {
+    videos: Array<{
+      type: string
+      url: string
+      filename: string
+      thumbnailUrl?: string | null
+    }>
+  }
+}
+
+interface JobListResponse {
+  jobs: JobListItem[]
+  total: number
+  offset: number
+  limit: number
+}
+
+/**
+ * 页面顶部的状态筛选项，value 为传给 GET /api/jobs 的 status 参数。
+ */
+const STATUS_FILTERS: Array<{ label: string; value: string }> = [
+  { label: "全部", value: "" },
+  { label: "进行中", value: "pending,processing" },
+  { label: "已完成", value: "completed,partial" },
+  { label: "失败 / 已取消", value: "failed,cancelled" },
+]
+
+const PAGE_SIZE = 10
+/**
+ * 列表中存在进行中的任务时的自动刷新间隔。
+ */
+const ACTIVE_REFRESH_INTERVAL_MS = 5000
+
+function formatTimestamp(timestamp: number): string {
+  return new Date(timestamp).toLocaleString("zh-CN")
+}
+
+function isJobActive(status: JobStatus): boolean {
+  return status === "pending" || status === "processing"
+}
+
+export default function JobsPage() {
+  const [statusFilter, setStatusFilter] = useState("")
+  const [offset, setOffset] = useState(0)
+  const [page, setPage] = useState<JobListResponse | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [cancellingJobId, setCancellingJobId] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  /**
+   * 拉取当前筛选条件下的一页任务。
+   */
+  const loadJobs = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const params = new URLSearchParams({ limit: `${PAGE_SIZE}`, offset: `${offset}` })
+      if (statusFilter) {
+        params.set("status", statusFilter)
+      }
+      const response = await fetch(`/api/jobs?${params.toString()}`, { cache: "no-store" })
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => null)) as { error?: string } | null
+        throw new Error(payload?.error ?? `服务器返回错误 (状态码: ${response.status})`)
+      }
+      setPage((await response.json()) as JobListResponse)
+    } catch (error) {
+      toast({
+        title: "加载任务失败",
+        description: error instanceof Error ? error.message : "请稍后重试",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [offset, statusFilter, toast])
+
+  useEffect(() => {
+    void loadJobs()
+  }, [loadJobs])
+
+  // 当前页有进行中的任务时定时刷新
+  const hasActiveJobs = page?.jobs.some((job) => isJobActive(job.status)) ?? false
+  useEffect(() => {
+    if (!hasActiveJobs) return
+    const timer = setInterval(() => void loadJobs(), ACTIVE_REFRESH_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [hasActiveJobs, loadJobs])
+
+  /**
+   * 取消排队中或处理中的任务。
+   */
+  const handleCancel = async (jobId: string) => {
+    setCancellingJobId(jobId)
+    try {
+      const response = await fetch(`/api/process/${jobId}`, { method: "DELETE" })
+      if (!response.ok && response.status !== 409) {
+        const payload = (await response.json().catch(() => null)) as { error?: string } | null
+        throw new Error(payload?.error ?? `服务器返回错误 (状态码: ${response.status})`)
+      }
+      await loadJobs()
+    } catch (error) {
+      toast({
+        title: "取消失败",
+        description: error instanceof Error ? error.message : "请稍后重试",
+        variant: "destructive",
+      })
+    } finally {
+      setCancellingJobId(null)
+    }
+  }
+
+  const total = page?.total ?? 0
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8 max-w-5xl">
+        {/* Header */}
+        <div className="mb-8 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex items-center gap-3">
+            <History className="h-8 w-8 text-primary" />
+            <div>
+              <h1 className="text-3xl font-bold">任务历史</h1>
+              <p className="text-muted-foreground">当前浏览器提交过的渲染任务</p>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => void loadJobs()} disabled={isLoading}>
+              <RefreshCw className={isLoading ? "h-4 w-4 animate-spin" : "h-4 w-4"} />
+              刷新
+            </Button>
+            <Button variant="outline" asChild>
+              <Link href="/">
+                <ArrowLeft className="h-4 w-4" />
+                返回首页
+              </Link>
+            </Button>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="mb-6 flex flex-wrap gap-2">
+          {STATUS_FILTERS.map((filter) => (
+            <Button
+              key={filter.label}
+              size="sm"
+              variant={statusFilter === filter.value ? "default" : "outline"}
+              onClick={() => {
+                setStatusFilter(filter.value)
+                setOffset(0)
+              }}
+            >
+              {filter.label}
+            </Button>
+          ))}
+        </div>
+
+        {/* Job List */}
+        {page && page.jobs.length === 0 && (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">暂无任务</CardContent>
+          </Card>
+        )}
+
+        <div className="space-y-4">
+          {page?.jobs.map((job) => (
+            <Card key={job.id}>
+              <CardHeader className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
+                <div className="min-w-0 space-y-1">
+                  <CardTitle className="flex items-center gap-2 text-base">
+                    <JobStatusBadge status={job.status} />
+                    <span className="truncate font-mono text-sm">{job.id}</span>
+                  </CardTitle>
+                  <CardDescription>
+                    提交于 {formatTimestamp(job.createdAt)}
+                    {job.finishedAt ? ` · 结束于 ${formatTimestamp(job.finishedAt)}` : ""} · {job.encodingProfile.label}
+                    {job.quality?.tier === "draft" && " · 草稿"}
+                    {job.promotedJobId && ` · 已转正式渲染 ${job.promotedJobId.slice(0, 8)}`}
+                  </CardDescription>
+                </div>
+                {isJobActive(job.status) && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => void handleCancel(job.id)}
+                    disabled={cancellingJobId === job.id}
+                  >
+                    {cancellingJobId === job.id ? "正在取消..." : "取消任务"}
+                  </Button>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {isJobActive(job.status) && (
+                  <div className="space-y-1">
+                    <Progress value={job.progress} className="h-2" />
+                    <p className="text-xs text-muted-foreground">
+                      {job.status === "pending"
+                        ? `排队中，前面还有 ${job.queuePosition} 个任务`
+                        : `正在渲染 ${job.progress}%`}
+                    </p>
+                  </div>
+                )}
+                {(job.error || job.message) && (
+                  <p className={job.error ? "text-sm text-destructive" : "text-sm text-muted-foreground"}>
+                    {job.error ?? job.message}
+                  </p>
+                )}
+                {job.result && job.result.videos.length > 0 && (
+                  <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+                    {job.result.videos.map((video) => (
+                      <div key={video.filename} className="flex items-center gap-3 rounded-md border p-2">
+                        {video.thumbnailUrl && (
+                          <img
+                            src={video.thumbnailUrl}
+                            alt={`${video.filename} 封面`}
+                            loading="lazy"
+                            className="h-12 w-20 shrink-0 rounded bg-muted object-contain"
+                          />
+                        )}
+                        <div className="min-w-0 flex-1">
+                          <p className="truncate text-sm font-medium">
+                            {getOutputVariant(video.type)?.label ?? video.type}
+                          </p>
+                          <p className="truncate text-xs text-muted-foreground">{video.filename}</p>
+                        </div>
+                        <Button size="icon" variant="outline" asChild>
+                          <a href={video.url} download={video.filename}>
+                            <Download className="h-4 w-4" />
+                          </a>
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {/* Pagination */}
+        {total > PAGE_SIZE && (
+          <div className="mt-6 flex items-center justify-between text-sm text-muted-foreground">
+            <span>
+              第 {offset + 1}-{Math.min(offset + PAGE_SIZE, total)} 条，共 {total} 条
+            </span>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={offset === 0}
+                onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+              >
+                上一页
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={offset + PAGE_SIZE >= total}
+                onClick={() => setOffset(offset + PAGE_SIZE)}
+              >
+                下一页
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -5,14 +5,27 @@
  */
 
 import { put } from "@vercel/blob/client"
+import Link from "next/link"
 import { useEffect, useRef, useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
-import { VideoUploader } from "@/components/video-uploader"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { VideoUploader, type VideoUploadItem } from "@/components/video-uploader"
+import { JOB_STATUS_LABEL, JobStatusBadge, type JobStatus } from "@/components/job-status-badge"
 import { TemplateUploader } from "@/components/template-uploader"
-import { RenderProgress } from "@/components/render-progress"
-import { Download, Video } from "lucide-react"
+import { RenderProgress, type RenderPhase, type RenderVariantProgress } from "@/components/render-progress"
+import { Download, Eye, History, Sparkles, Video } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
+import { getOutputVariant, listOutputVariants } from "@/lib/output-variants"
+import {
+  forgetRecentJob,
+  loadRecentJobs,
+  rememberRecentJob,
+  updateRecentJobStatus,
+  type RecentJobEntry,
+} from "@/lib/recent-jobs"
 
 /**
  * 描述服务端错误解析结果的数据结构。
@@ -60,16 +73,40 @@ interface RemoteFileReferencePayload {
   mimeType: string
 }
 
+interface VideoReferencePayload extends RemoteFileReferencePayload {
+  /** 需要烧录到成片中的字幕文件 */
+  subtitle?: RemoteFileReferencePayload
+}
+
 interface ProcessRequestBody {
-  videos: RemoteFileReferencePayload[]
-  templates: {
-    vertical?: RemoteFileReferencePayload
-    square?: RemoteFileReferencePayload
-    landscape?: RemoteFileReferencePayload
-  }
+  videos: VideoReferencePayload[]
+  /** 以输出尺寸 id 为键的模板引用 */
+  templates: Record<string, RemoteFileReferencePayload>
+  /** 草稿模式：半分辨率快速渲染，可只渲染前若干秒 */
+  quality?: RenderQualityPayload
+}
+
+/**
+ * 渲染质量，与任务快照中的 quality 结构一致。
+ */
+interface RenderQualityPayload {
+  tier: "final" | "draft"
+  maxSeconds?: number
 }
 
-type JobStatus = "pending" | "processing" | "completed" | "failed"
+/**
+ * /api/preview 返回的单个尺寸预览帧；生成失败时只有 error。
+ */
+interface PreviewFrame {
+  variant: string
+  label: string
+  width?: number
+  height?: number
+  seconds?: number
+  /** PNG data URL */
+  image?: string
+  error?: string
+}
 
 interface JobStatusResponse {
   id: string
@@ -81,17 +118,54 @@ interface JobStatusResponse {
   averageJobDurationSeconds?: number
   averageJobDurationMs?: number
   message?: string
+  metrics?: RenderMetrics
+  quality?: RenderQualityPayload
+  /** 草稿已转为正式渲染时对应的正式任务 ID */
+  promotedJobId?: string | null
   result?: {
-    videos: Array<{ filename: string; url: string; type: string }>
+    videos: Array<{
+      filename: string
+      url: string
+      type: string
+      posterUrl?: string | null
+      thumbnailUrl?: string | null
+    }>
+    outputs?: OutputStatus[]
   }
   error?: string
 }
 
-const JOB_STATUS_LABEL: Record<JobStatus, string> = {
-  pending: "排队中",
-  processing: "正在渲染",
-  completed: "已完成",
-  failed: "失败",
+/**
+ * 单个输出（源视频 × 尺寸）的成败，与任务快照 result.outputs 的结构一致。
+ */
+interface OutputStatus {
+  videoIndex: number
+  videoName: string
+  variant: string
+  status: "ok" | "failed"
+  attempts?: number
+  filename?: string
+  error?: string
+}
+
+/**
+ * 任务快照中的渲染指标。
+ */
+interface RenderMetrics {
+  completedVariants: number
+  totalVariants: number
+  phase?: RenderPhase | null
+  variants?: RenderVariantProgress[]
+}
+
+/**
+ * 下载区域展示的单个成片。
+ */
+interface RenderedVideo {
+  name: string
+  url: string
+  posterUrl: string | null
+  thumbnailUrl: string | null
 }
 
 /**
@@ -163,6 +237,11 @@ async function parseErrorResponse(response: Response): Promise<ParsedErrorRespon
 
 const MAX_SINGLE_UPLOAD_BYTES = 2 * 1024 * 1024 * 1024 // 2GB
 
+/**
+ * 界面展示的输出尺寸，与后端渲染使用同一份注册表。
+ */
+const OUTPUT_VARIANTS = listOutputVariants()
+
 /**
  * 将字节数转换为可读字符串，便于错误提示。
  */
@@ -181,9 +260,10 @@ function formatBytesForDisplay(bytes: number): string {
 /**
  * 请求服务端生成一次性 Blob 客户端上传凭证。
  */
-async function requestBlobUploadToken(file: File): Promise<BlobUploadTokenResponse> {
+async function requestBlobUploadToken(file: File, signal: AbortSignal): Promise<BlobUploadTokenResponse> {
   const response = await fetch("/api/blob-upload-url", {
     method: "POST",
+    signal,
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({
       filename: file.name,
@@ -206,11 +286,13 @@ async function requestBlobUploadToken(file: File): Promise<BlobUploadTokenRespon
 async function uploadFileViaVercelBlob(
   file: File,
   uploadToken: VercelBlobUploadTokenResponse,
+  signal: AbortSignal,
 ): Promise<RemoteFileReferencePayload> {
   const uploadResult = await put(uploadToken.pathname, file, {
     access: "public",
     token: uploadToken.clientToken,
     contentType: file.type || "application/octet-stream",
+    abortSignal: signal,
   })
 
   return {
@@ -228,6 +310,7 @@ async function uploadFileViaLocalEndpoint(
   file: File,
   label: string,
   uploadToken: LocalUploadTokenResponse,
+  signal: AbortSignal,
 ): Promise<RemoteFileReferencePayload> {
   const formData = new FormData()
   formData.append("file", file, file.name)
@@ -238,6 +321,7 @@ async function uploadFileViaLocalEndpoint(
   const response = await fetch(uploadToken.uploadEndpoint, {
     method: "POST",
     body: formData,
+    signal,
   })
 
   if (!response.ok) {
@@ -256,60 +340,82 @@ async function uploadFileViaLocalEndpoint(
 
 /**
  * 根据运行环境自动选择上传策略，并返回后端需要的远程引用。
+ * signal 触发时会中止正在进行的上传。
  */
-async function persistFileWithAdaptiveStrategy(file: File, label: string): Promise<RemoteFileReferencePayload> {
+async function persistFileWithAdaptiveStrategy(
+  file: File,
+  label: string,
+  signal: AbortSignal,
+): Promise<RemoteFileReferencePayload> {
   if (file.size > MAX_SINGLE_UPLOAD_BYTES) {
     throw new Error(`${label} 超过当前 ${formatBytesForDisplay(MAX_SINGLE_UPLOAD_BYTES)} 的单文件限制`)
   }
 
-  const uploadToken = await requestBlobUploadToken(file)
+  const uploadToken = await requestBlobUploadToken(file, signal)
   if (file.size > uploadToken.maxUploadBytes) {
     throw new Error(`${label} 超过后端允许的 ${formatBytesForDisplay(uploadToken.maxUploadBytes)} 限制`)
   }
 
   if (uploadToken.strategy === "local") {
-    return uploadFileViaLocalEndpoint(file, label, uploadToken)
+    return uploadFileViaLocalEndpoint(file, label, uploadToken, signal)
   }
 
-  return uploadFileViaVercelBlob(file, uploadToken)
+  return uploadFileViaVercelBlob(file, uploadToken, signal)
 }
 
 export default function Home() {
-  const [videos, setVideos] = useState<File[]>([])
-  const [templates, setTemplates] = useState({
-    vertical: null as File | null,
-    square: null as File | null,
-    horizontal: null as File | null,
-  })
+  const [videos, setVideos] = useState<VideoUploadItem[]>([])
+  const [templates, setTemplates] = useState<Record<string, File | null>>({})
   const [isRendering, setIsRendering] = useState(false)
   const [progress, setProgress] = useState(0)
-  const [renderedVideos, setRenderedVideos] = useState<Array<{ name: string; url: string }>>([])
+  const [renderMetrics, setRenderMetrics] = useState<RenderMetrics | null>(null)
+  const [renderedVideos, setRenderedVideos] = useState<RenderedVideo[]>([])
+  const [failedOutputs, setFailedOutputs] = useState<OutputStatus[]>([])
   const [isBatchDownloading, setIsBatchDownloading] = useState(false)
   const [activeJobId, setActiveJobId] = useState<string | null>(null)
   const [jobStatus, setJobStatus] = useState<JobStatus | null>(null)
   const [queuePosition, setQueuePosition] = useState<number | null>(null)
   const [estimatedWaitSeconds, setEstimatedWaitSeconds] = useState<number | null>(null)
+  const [isCancelling, setIsCancelling] = useState(false)
+  const [recentJobs, setRecentJobs] = useState<RecentJobEntry[]>([])
+  const [previewFrames, setPreviewFrames] = useState<PreviewFrame[]>([])
+  const [isPreviewing, setIsPreviewing] = useState(false)
+  const [isDraft, setIsDraft] = useState(false)
+  const [draftMaxSeconds, setDraftMaxSeconds] = useState("")
+  const [completedDraft, setCompletedDraft] = useState<JobStatusResponse | null>(null)
+  const [isPromoting, setIsPromoting] = useState(false)
   const pollingTimerRef = useRef<ReturnType<typeof setInterval> | null>(null)
+  const eventSourceRef = useRef<EventSource | null>(null)
+  const uploadAbortRef = useRef<AbortController | null>(null)
+  /** 进行中的预览请求；发起新预览、更换素材或离开页面时中止，服务端随之停止 FFmpeg */
+  const previewAbortRef = useRef<AbortController | null>(null)
+  /** 本页提交过的批次数，恢复最近任务时据此判断等待期间是否开始过新的任务 */
+  const renderSubmissionCountRef = useRef(0)
   const { toast } = useToast()
 
   /**
-   * 停止后台轮询，避免产生重复请求或内存泄漏。
+   * 停止后台轮询并关闭 SSE 连接，避免产生重复请求或内存泄漏。
    */
   const stopPolling = () => {
     if (pollingTimerRef.current) {
       clearInterval(pollingTimerRef.current)
       pollingTimerRef.current = null
     }
+    if (eventSourceRef.current) {
+      eventSourceRef.current.close()
+      eventSourceRef.current = null
+    }
   }
 
   /**
-   * 处理任务完成后的 UI 更新和提示。
+   * 处理任务完成（含部分完成）后的 UI 更新和提示。
+   * quiet 为 true 时只恢复界面、不弹提示（页面重新打开时恢复已完成的任务）。
    */
-  const handleJobCompletion = (snapshot: JobStatusResponse) => {
+  const handleJobCompletion = (snapshot: JobStatusResponse, quiet = false) => {
     stopPolling()
     setIsRendering(false)
     setProgress(100)
-    setJobStatus("completed")
+    setJobStatus(snapshot.status)
     setQueuePosition(0)
     setEstimatedWaitSeconds(0)
     setActiveJobId(snapshot.id)
@@ -318,9 +424,28 @@ export default function Home() {
       snapshot.result?.videos?.map((video) => ({
         name: video.filename,
         url: video.url,
+        posterUrl: video.posterUrl ?? null,
+        thumbnailUrl: video.thumbnailUrl ?? null,
       })) ?? []
 
+    const failures = snapshot.result?.outputs?.filter((output) => output.status === "failed") ?? []
+
     setRenderedVideos(processedVideos)
+    setFailedOutputs(failures)
+    setCompletedDraft(snapshot.quality?.tier === "draft" ? snapshot : null)
+
+    if (quiet) {
+      return
+    }
+
+    if (snapshot.status === "partial") {
+      toast({
+        title: "部分视频生成失败",
+        description: snapshot.message ?? `${failures.length} 个输出生成失败，其余视频可正常下载`,
+        variant: "destructive",
+      })
+      return
+    }
 
     toast({
       title: "视频处理完成",
@@ -331,13 +456,17 @@ export default function Home() {
   /**
    * 处理任务失败的情形。
    */
-  const handleJobFailure = (message: string) => {
+  const handleJobFailure = (message: string, quiet = false) => {
     stopPolling()
     setIsRendering(false)
     setJobStatus("failed")
     setProgress(0)
     setEstimatedWaitSeconds(null)
 
+    if (quiet) {
+      return
+    }
+
     toast({
       title: "任务失败",
       description: message,
@@ -345,20 +474,46 @@ export default function Home() {
     })
   }
 
+  /**
+   * 任务被取消后的 UI 复位（本页取消或其他页面取消均会走到这里）。
+   */
+  const handleJobCancelled = (quiet = false) => {
+    stopPolling()
+    setIsRendering(false)
+    setJobStatus("cancelled")
+    setProgress(0)
+    setRenderMetrics(null)
+    setQueuePosition(null)
+    setEstimatedWaitSeconds(null)
+
+    if (quiet) {
+      return
+    }
+
+    toast({
+      title: "任务已取消",
+      description: "已停止上传与渲染，临时文件已清理",
+    })
+  }
+
   /**
    * 根据最新的任务快照刷新前端状态。
    */
-  const processJobSnapshot = (snapshot: JobStatusResponse) => {
+  const processJobSnapshot = (snapshot: JobStatusResponse, quiet = false) => {
+    setRecentJobs(updateRecentJobStatus(snapshot.id, snapshot.status))
     setActiveJobId(snapshot.id)
     setJobStatus(snapshot.status)
     setQueuePosition(snapshot.queuePosition ?? 0)
     setProgress(snapshot.progress ?? 0)
+    setRenderMetrics(snapshot.metrics ?? null)
     setEstimatedWaitSeconds(resolveEtaSeconds(snapshot))
 
-    if (snapshot.status === "completed") {
-      handleJobCompletion(snapshot)
+    if (snapshot.status === "completed" || snapshot.status === "partial") {
+      handleJobCompletion(snapshot, quiet)
     } else if (snapshot.status === "failed") {
-      handleJobFailure(snapshot.error ?? "后台处理失败，请稍后重试")
+      handleJobFailure(snapshot.error ?? "后台处理失败，请稍后重试", quiet)
+    } else if (snapshot.status === "cancelled") {
+      handleJobCancelled(quiet)
     }
   }
 
@@ -395,12 +550,221 @@ export default function Home() {
     pollingTimerRef.current = setInterval(invokePoll, 4000)
   }
 
+  /**
+   * 订阅任务进度：优先使用 SSE 实时推送，浏览器不支持或连接出错时回退为轮询。
+   */
+  const subscribeJobUpdates = (jobId: string) => {
+    stopPolling()
+
+    if (typeof EventSource === "undefined") {
+      startPollingJob(jobId)
+      return
+    }
+
+    const source = new EventSource(`/api/process/${jobId}/events`)
+    eventSourceRef.current = source
+    source.addEventListener("snapshot", (event) => {
+      processJobSnapshot(JSON.parse((event as MessageEvent<string>).data) as JobStatusResponse)
+    })
+    source.onerror = () => {
+      // 任务结束时 processJobSnapshot 已关闭连接；仍处于订阅状态说明连接异常
+      if (eventSourceRef.current !== source) return
+      console.warn("SSE 连接中断，改为轮询任务状态")
+      startPollingJob(jobId)
+    }
+  }
+
+  /**
+   * 查询单个任务快照；任务不存在或已过期时返回 null，网络错误时抛出。
+   */
+  const fetchJobSnapshot = async (jobId: string): Promise<JobStatusResponse | null> => {
+    const response = await fetch(`/api/process/${jobId}`, { cache: "no-store" })
+    if (response.status === 404) {
+      return null
+    }
+    if (!response.ok) {
+      const { message } = await parseErrorResponse(response)
+      throw new Error(message)
+    }
+    return (await response.json()) as JobStatusResponse
+  }
+
+  /**
+   * 将页面切换到指定任务：进行中的任务恢复进度展示并重新订阅，已结束的任务展示最终结果。
+   */
+  const attachJobSnapshot = (snapshot: JobStatusResponse, quiet: boolean) => {
+    stopPolling()
+    setRenderedVideos([])
+    setFailedOutputs([])
+    setRenderMetrics(null)
+    setCompletedDraft(null)
+
+    const isActive = snapshot.status === "pending" || snapshot.status === "processing"
+    setIsRendering(isActive)
+    processJobSnapshot(snapshot, quiet)
+    if (isActive) {
+      subscribeJobUpdates(snapshot.id)
+    }
+  }
+
+  /**
+   * 页面打开时恢复最近的任务：刷新本地记录的状态，优先重新接上仍在进行中的任务，
+   * 否则展示最近一次完成的任务的下载入口。
+   */
+  const restoreRecentJobs = async () => {
+    const entries = loadRecentJobs()
+    setRecentJobs(entries)
+    if (entries.length === 0) return
+    const submissionCountAtStart = renderSubmissionCountRef.current
+
+    const snapshots = await Promise.all(
+      entries.map(async (entry) => {
+        try {
+          const snapshot = await fetchJobSnapshot(entry.id)
+          if (!snapshot) {
+            forgetRecentJob(entry.id)
+          } else {
+            updateRecentJobStatus(entry.id, snapshot.status)
+          }
+          return snapshot
+        } catch (error) {
+          console.warn(`恢复任务 ${entry.id} 失败:`, error)
+          return null
+        }
+      }),
+    )
+    setRecentJobs(loadRecentJobs())
+
+    // 等待期间用户已经开始了新的任务，不再覆盖当前界面
+    if (renderSubmissionCountRef.current !== submissionCountAtStart) return
+
+    const available = snapshots.filter((snapshot): snapshot is JobStatusResponse => snapshot !== null)
+    const target =
+      available.find((snapshot) => snapshot.status === "pending" || snapshot.status === "processing") ??
+      available.find((snapshot) => snapshot.status === "completed" || snapshot.status === "partial")
+    if (target) {
+      console.log("♻️ 已恢复任务:", target.id)
+      attachJobSnapshot(target, true)
+    }
+  }
+
+  /**
+   * 在最近任务列表中查看某个任务。
+   */
+  const handleViewRecentJob = async (jobId: string) => {
+    try {
+      const snapshot = await fetchJobSnapshot(jobId)
+      if (!snapshot) {
+        setRecentJobs(forgetRecentJob(jobId))
+        toast({
+          title: "任务不存在或已过期",
+          description: "已从最近任务中移除",
+          variant: "destructive",
+        })
+        return
+      }
+      attachJobSnapshot(snapshot, false)
+    } catch (error) {
+      toast({
+        title: "加载任务失败",
+        description: error instanceof Error ? error.message : "请稍后重试",
+        variant: "destructive",
+      })
+    }
+  }
+
   useEffect(() => {
+    void restoreRecentJobs()
     return () => {
       stopPolling()
+      previewAbortRef.current?.abort()
     }
   }, [])
 
+  // 更换视频或模板后旧的预览不再准确，进行中的预览也一并中止
+  useEffect(() => {
+    previewAbortRef.current?.abort()
+    setPreviewFrames([])
+  }, [videos, templates])
+
+  /**
+   * 用第一个源视频与已选模板请求每个尺寸的一帧合成预览，提交大批次前先确认布局。
+   */
+  const handlePreview = async () => {
+    const selectedVariants = OUTPUT_VARIANTS.filter((variant) => templates[variant.id])
+    if (videos.length === 0 || selectedVariants.length === 0) {
+      toast({
+        title: "无法预览",
+        description: "请先上传至少一个竖版视频和一种模板",
+        variant: "destructive",
+      })
+      return
+    }
+
+    previewAbortRef.current?.abort()
+    const previewController = new AbortController()
+    previewAbortRef.current = previewController
+    setIsPreviewing(true)
+    try {
+      const [firstVideo] = videos
+      const video: VideoReferencePayload = await persistFileWithAdaptiveStrategy(
+        firstVideo.file,
+        "预览视频",
+        previewController.signal,
+      )
+      if (firstVideo.subtitle) {
+        video.subtitle = await persistFileWithAdaptiveStrategy(
+          firstVideo.subtitle,
+          "预览视频字幕",
+          previewController.signal,
+        )
+      }
+
+      const uploadedTemplates: Record<string, RemoteFileReferencePayload> = {}
+      for (const variant of selectedVariants) {
+        const templateFile = templates[variant.id]
+        if (templateFile) {
+          uploadedTemplates[variant.id] = await persistFileWithAdaptiveStrategy(
+            templateFile,
+            `${variant.label}模板`,
+            previewController.signal,
+          )
+        }
+      }
+
+      const response = await fetch("/api/preview", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ video, templates: uploadedTemplates }),
+        signal: previewController.signal,
+      })
+      if (!response.ok) {
+        const { message } = await parseErrorResponse(response)
+        throw new Error(message)
+      }
+
+      const data: { previews: PreviewFrame[] } = await response.json()
+      setPreviewFrames(data.previews)
+    } catch (error) {
+      if (previewController.signal.aborted) {
+        console.log("预览已取消")
+        return
+      }
+      console.error("合成预览失败:", error)
+      toast({
+        title: "预览失败",
+        description: error instanceof Error ? error.message : "请稍后重试",
+        variant: "destructive",
+      })
+    } finally {
+      // 已被新的预览取代时由新的预览负责结束加载状态
+      if (previewAbortRef.current === previewController) {
+        previewAbortRef.current = null
+        setIsPreviewing(false)
+      }
+    }
+  }
+
   /**
    * 提交上传任务到后端，触发视频批量渲染。
    */
@@ -415,12 +779,10 @@ export default function Home() {
       return
     }
 
-    // 验证：至少需要方版或横版模板之一
-    const hasVertical = templates.vertical !== null
-    const hasSquare = templates.square !== null
-    const hasLandscape = templates.horizontal !== null
-    
-    if (!hasVertical && !hasSquare && !hasLandscape) {
+    // 验证：至少需要一种尺寸的模板
+    const selectedVariants = OUTPUT_VARIANTS.filter((variant) => templates[variant.id])
+
+    if (selectedVariants.length === 0) {
       toast({
         title: "请上传模板",
         description: "至少需要上传一种模板",
@@ -430,9 +792,15 @@ export default function Home() {
     }
 
     stopPolling()
+    const uploadController = new AbortController()
+    uploadAbortRef.current = uploadController
+    renderSubmissionCountRef.current += 1
     setIsRendering(true)
     setProgress(0)
+    setRenderMetrics(null)
     setRenderedVideos([])
+    setFailedOutputs([])
+    setCompletedDraft(null)
     setActiveJobId(null)
     setJobStatus(null)
     setQueuePosition(null)
@@ -440,39 +808,51 @@ export default function Home() {
     try {
       console.log("========== 开始准备 Blob 上传 ==========")
       console.log(`上传的视频数量: ${videos.length}`)
-      console.log("竖版模板:", templates.vertical?.name || "未上传")
-      console.log("方版模板:", templates.square?.name || "未上传")
-      console.log("横版模板:", templates.horizontal?.name || "未上传")
+      OUTPUT_VARIANTS.forEach((variant) => {
+        console.log(`${variant.label}模板:`, templates[variant.id]?.name || "未上传")
+      })
 
-      const uploadedVideos: RemoteFileReferencePayload[] = []
+      const uploadedVideos: VideoReferencePayload[] = []
       for (const [index, video] of videos.entries()) {
-        const uploaded = await persistFileWithAdaptiveStrategy(video, `竖版视频 #${index + 1}`)
+        const label = `竖版视频 #${index + 1}`
+        const uploaded: VideoReferencePayload = await persistFileWithAdaptiveStrategy(
+          video.file,
+          label,
+          uploadController.signal,
+        )
+        if (video.subtitle) {
+          uploaded.subtitle = await persistFileWithAdaptiveStrategy(
+            video.subtitle,
+            `${label}字幕`,
+            uploadController.signal,
+          )
+        }
         uploadedVideos.push(uploaded)
       }
 
-      const uploadedTemplates: {
-        vertical?: RemoteFileReferencePayload
-        square?: RemoteFileReferencePayload
-        landscape?: RemoteFileReferencePayload
-      } = {}
-
-      if (templates.vertical) {
-        uploadedTemplates.vertical = await persistFileWithAdaptiveStrategy(templates.vertical, "竖版模板")
-      }
-      if (templates.square) {
-        uploadedTemplates.square = await persistFileWithAdaptiveStrategy(templates.square, "方版模板")
-      }
-      if (templates.horizontal) {
-        uploadedTemplates.landscape = await persistFileWithAdaptiveStrategy(templates.horizontal, "横版模板")
+      const uploadedTemplates: Record<string, RemoteFileReferencePayload> = {}
+      for (const variant of selectedVariants) {
+        const templateFile = templates[variant.id]
+        if (templateFile) {
+          uploadedTemplates[variant.id] = await persistFileWithAdaptiveStrategy(
+            templateFile,
+            `${variant.label}模板`,
+            uploadController.signal,
+          )
+        }
       }
 
+      const maxSeconds = Number(draftMaxSeconds)
       const requestPayload: ProcessRequestBody = {
         videos: uploadedVideos,
-        templates: {
-          ...(uploadedTemplates.vertical ? { vertical: uploadedTemplates.vertical } : {}),
-          ...(uploadedTemplates.square ? { square: uploadedTemplates.square } : {}),
-          ...(uploadedTemplates.landscape ? { landscape: uploadedTemplates.landscape } : {}),
-        },
+        templates: uploadedTemplates,
+        quality: isDraft
+          ? { tier: "draft", maxSeconds: draftMaxSeconds.trim() && maxSeconds > 0 ? maxSeconds : undefined }
+          : undefined,
+      }
+
+      if (uploadController.signal.aborted) {
+        return
       }
 
       console.log("正在发送 JSON 请求到 /api/process...")
@@ -502,13 +882,20 @@ export default function Home() {
 
       console.log("✅ 任务已成功入队:", data.jobId)
 
+      // 提交请求期间用户点击了取消：任务已在后端入队，需要立即撤销
+      if (uploadController.signal.aborted) {
+        void fetch(`/api/process/${data.jobId}`, { method: "DELETE" })
+        return
+      }
+
+      setRecentJobs(rememberRecentJob(data.jobId, data.status))
       setActiveJobId(data.jobId)
       setJobStatus(data.status)
       setQueuePosition(data.queuePosition ?? 0)
       setProgress(data.progress ?? 0)
       setEstimatedWaitSeconds(resolveEtaSeconds(data))
 
-      startPollingJob(data.jobId)
+      subscribeJobUpdates(data.jobId)
 
       toast({
         title: "任务已排队",
@@ -518,6 +905,10 @@ export default function Home() {
             : "正在准备开始处理，请保持页面开启",
       })
     } catch (error) {
+      if (uploadController.signal.aborted) {
+        console.log("上传已取消")
+        return
+      }
       console.error("视频处理错误:", error)
       toast({
         title: "处理失败",
@@ -531,6 +922,81 @@ export default function Home() {
       setJobStatus(null)
       setQueuePosition(null)
       setEstimatedWaitSeconds(null)
+    } finally {
+      // 上传与提交已结束，之后的取消走 DELETE 接口
+      if (uploadAbortRef.current === uploadController) {
+        uploadAbortRef.current = null
+      }
+    }
+  }
+
+  /**
+   * 将已完成的草稿按相同参数转为正式渲染，并切换到新任务的进度。
+   */
+  const handlePromote = async () => {
+    if (!completedDraft) return
+
+    setIsPromoting(true)
+    try {
+      const response = await fetch(`/api/process/${completedDraft.id}/promote`, { method: "POST" })
+      if (!response.ok) {
+        const { message } = await parseErrorResponse(response)
+        throw new Error(message)
+      }
+
+      const snapshot = (await response.json()) as JobStatusResponse
+      setRecentJobs(rememberRecentJob(snapshot.id, snapshot.status))
+      attachJobSnapshot(snapshot, true)
+      toast({
+        title: "正式版已排队",
+        description: "将使用与草稿相同的素材与设置进行完整渲染",
+      })
+    } catch (error) {
+      toast({
+        title: "渲染正式版失败",
+        description: error instanceof Error ? error.message : "请稍后重试",
+        variant: "destructive",
+      })
+    } finally {
+      setIsPromoting(false)
+    }
+  }
+
+  /**
+   * 取消当前任务：上传阶段直接中止上传，入队后调用 DELETE 接口终止后台渲染。
+   */
+  const handleCancel = async () => {
+    setIsCancelling(true)
+    uploadAbortRef.current?.abort()
+    uploadAbortRef.current = null
+
+    try {
+      if (activeJobId) {
+        const response = await fetch(`/api/process/${activeJobId}`, { method: "DELETE" })
+        if (response.status === 409) {
+          // 任务已先一步结束，按最终状态展示
+          const { payload } = await parseErrorResponse(response)
+          const finishedJob = (payload as { job?: JobStatusResponse } | null)?.job
+          if (finishedJob) {
+            processJobSnapshot(finishedJob)
+            return
+          }
+        } else if (!response.ok) {
+          const { message } = await parseErrorResponse(response)
+          throw new Error(message)
+        }
+        setRecentJobs(updateRecentJobStatus(activeJobId, "cancelled"))
+      }
+
+      handleJobCancelled()
+    } catch (error) {
+      toast({
+        title: "取消失败",
+        description: error instanceof Error ? error.message : "请稍后重试",
+        variant: "destructive",
+      })
+    } finally {
+      setIsCancelling(false)
     }
   }
 
@@ -602,8 +1068,58 @@ export default function Home() {
             <h1 className="text-4xl font-bold text-balance">视频格式转换工具</h1>
           </div>
           <p className="text-muted-foreground text-lg">批量上传竖版视频，选择模板，一键生成多种尺寸的视频</p>
+          <Button variant="link" asChild className="mt-2">
+            <Link href="/jobs">
+              <History className="h-4 w-4" />
+              查看任务历史
+            </Link>
+          </Button>
         </div>
 
+        {/* Recent Jobs Section */}
+        {recentJobs.length > 0 && (
+          <Card className="mb-8">
+            <CardHeader>
+              <CardTitle>最近任务</CardTitle>
+              <CardDescription>刷新或重新打开页面后，可在这里继续查看进度或下载结果</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {recentJobs.map((job) => (
+                <div
+                  key={job.id}
+                  className="flex flex-col gap-2 rounded-md border p-3 text-sm sm:flex-row sm:items-center sm:justify-between"
+                >
+                  <div className="flex min-w-0 items-center gap-3">
+                    <JobStatusBadge status={job.status} />
+                    <span className="truncate font-mono text-xs">{job.id}</span>
+                    <span className="shrink-0 text-muted-foreground">
+                      {new Date(job.createdAt).toLocaleString("zh-CN")}
+                    </span>
+                  </div>
+                  <div className="flex shrink-0 gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => void handleViewRecentJob(job.id)}
+                      disabled={isRendering || job.id === activeJobId}
+                    >
+                      {job.id === activeJobId ? "当前任务" : "查看"}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setRecentJobs(forgetRecentJob(job.id))}
+                      disabled={isRendering && job.id === activeJobId}
+                    >
+                      移除
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         <div className="grid lg:grid-cols-2 gap-6 mb-8">
           {/* Video Upload Section */}
           <Card className="border-2">
@@ -626,33 +1142,103 @@ export default function Home() {
               <CardDescription>上传不同尺寸的模板，至少选择一种</CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
-              <TemplateUploader
-                label="竖版模板"
-                description="9:16 竖屏格式"
-                template={templates.vertical}
-                onUpload={(file) => setTemplates({ ...templates, vertical: file })}
-              />
-              <TemplateUploader
-                label="方版模板"
-                description="1:1 方形格式"
-                template={templates.square}
-                onUpload={(file) => setTemplates({ ...templates, square: file })}
-              />
-              <TemplateUploader
-                label="横版模板"
-                description="16:9 横屏格式"
-                template={templates.horizontal}
-                onUpload={(file) => setTemplates({ ...templates, horizontal: file })}
-              />
+              {OUTPUT_VARIANTS.map((variant) => (
+                <TemplateUploader
+                  key={variant.id}
+                  label={`${variant.label}模板`}
+                  description={`${variant.description}（${variant.canvas.width}x${variant.canvas.height}）`}
+                  template={templates[variant.id] ?? null}
+                  onUpload={(file) => setTemplates({ ...templates, [variant.id]: file })}
+                />
+              ))}
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={handlePreview}
+                disabled={
+                  isPreviewing ||
+                  isRendering ||
+                  videos.length === 0 ||
+                  !OUTPUT_VARIANTS.some((variant) => templates[variant.id])
+                }
+              >
+                <Eye className="h-4 w-4 mr-2" />
+                {isPreviewing ? "正在生成预览..." : "预览合成效果"}
+              </Button>
             </CardContent>
           </Card>
         </div>
 
+        {/* Preview Section */}
+        {previewFrames.length > 0 && (
+          <Card className="mb-8">
+            <CardHeader>
+              <CardTitle>合成预览</CardTitle>
+              <CardDescription>第一个视频在各尺寸模板中的单帧画面，与最终成片使用相同的合成参数</CardDescription>
+            </CardHeader>
+            <CardContent className="grid gap-4 md:grid-cols-3">
+              {previewFrames.map((frame) => (
+                <div key={frame.variant} className="space-y-2">
+                  <div className="text-sm font-medium">
+                    {frame.label}
+                    {frame.width && frame.height && (
+                      <span className="ml-2 text-muted-foreground">
+                        {frame.width}x{frame.height} · {frame.seconds?.toFixed(1)}s
+                      </span>
+                    )}
+                  </div>
+                  {frame.image ? (
+                    <img src={frame.image} alt={`${frame.label}预览`} className="w-full rounded border bg-muted" />
+                  ) : (
+                    <p className="text-sm text-destructive">{frame.error ?? "预览生成失败"}</p>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Draft Option */}
+        <div className="flex flex-wrap items-center justify-center gap-4 mb-4 text-sm">
+          <div className="flex items-center gap-2">
+            <Switch id="draft-mode" checked={isDraft} onCheckedChange={setIsDraft} disabled={isRendering} />
+            <Label htmlFor="draft-mode">草稿模式（半分辨率快速渲染，确认后可渲染正式版）</Label>
+          </div>
+          {isDraft && (
+            <div className="flex items-center gap-2">
+              <Label htmlFor="draft-max-seconds">只渲染前</Label>
+              <Input
+                id="draft-max-seconds"
+                type="number"
+                min={1}
+                max={600}
+                placeholder="全部"
+                value={draftMaxSeconds}
+                onChange={(event) => setDraftMaxSeconds(event.target.value)}
+                disabled={isRendering}
+                className="w-24"
+              />
+              <span className="text-muted-foreground">秒</span>
+            </div>
+          )}
+        </div>
+
         {/* Render Button */}
         <div className="flex justify-center mb-8">
           <Button size="lg" onClick={handleRender} disabled={isRendering} className="px-8 py-6 text-lg">
             {isRendering ? "渲染中..." : "开始生成视频"}
           </Button>
+          {isRendering && (
+            <Button
+              size="lg"
+              variant="outline"
+              onClick={handleCancel}
+              disabled={isCancelling}
+              className="ml-4 px-8 py-6 text-lg"
+            >
+              {isCancelling ? "正在取消..." : "取消任务"}
+            </Button>
+          )}
         </div>
 
         {/* Progress Section */}
@@ -662,7 +1248,14 @@ export default function Home() {
               <CardTitle>渲染进度</CardTitle>
             </CardHeader>
             <CardContent>
-              <RenderProgress progress={progress} />
+              <RenderProgress
+                progress={progress}
+                isQueued={jobStatus === "pending"}
+                phase={renderMetrics?.phase}
+                completedVariants={renderMetrics?.completedVariants}
+                totalVariants={renderMetrics?.totalVariants}
+                variants={renderMetrics?.variants}
+              />
               <div className="mt-4 space-y-1 text-sm text-muted-foreground">
                 {jobStatus && (
                   <p>
@@ -693,22 +1286,65 @@ export default function Home() {
                 <CardTitle className="flex items-center gap-2">
                   <Download className="h-5 w-5" />
                   下载视频
+                  {completedDraft && (
+                    <span className="rounded bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800">草稿</span>
+                  )}
                 </CardTitle>
-                <CardDescription>点击单个按钮或使用一键下载压缩包</CardDescription>
+                <CardDescription>
+                  {completedDraft
+                    ? "草稿为半分辨率快速渲染，确认效果后可按相同设置渲染正式版"
+                    : "点击单个按钮或使用一键下载压缩包"}
+                </CardDescription>
+              </div>
+              <div className="flex flex-col gap-2 sm:flex-row">
+                {completedDraft && !completedDraft.promotedJobId && (
+                  <Button
+                    variant="outline"
+                    onClick={handlePromote}
+                    disabled={isPromoting || isRendering}
+                    className="w-full sm:w-auto"
+                  >
+                    <Sparkles className="h-4 w-4 mr-2" />
+                    {isPromoting ? "正在提交..." : "渲染正式版"}
+                  </Button>
+                )}
+                <Button
+                  variant="default"
+                  onClick={handleBatchDownload}
+                  disabled={isBatchDownloading}
+                  className="w-full sm:w-auto"
+                >
+                  {isBatchDownloading ? "打包中..." : "一键下载压缩包"}
+                </Button>
               </div>
-              <Button
-                variant="default"
-                onClick={handleBatchDownload}
-                disabled={isBatchDownloading}
-                className="w-full sm:w-auto"
-              >
-                {isBatchDownloading ? "打包中..." : "一键下载压缩包"}
-              </Button>
             </CardHeader>
             <CardContent>
+              {failedOutputs.length > 0 && (
+                <div className="mb-4 rounded-md border border-destructive/50 p-3 text-sm">
+                  <p className="font-medium text-destructive">以下 {failedOutputs.length} 个输出生成失败：</p>
+                  <ul className="mt-2 space-y-1 text-muted-foreground">
+                    {failedOutputs.map((output) => (
+                      <li key={`${output.videoIndex}-${output.variant}`} className="break-all">
+                        {output.videoName} · {getOutputVariant(output.variant)?.label ?? output.variant}
+                        {output.attempts && output.attempts > 1 ? `（已尝试 ${output.attempts} 次）` : ""}：{output.error}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
               <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
                 {renderedVideos.map((video, index) => (
                   <Card key={index} className="overflow-hidden">
+                    {video.thumbnailUrl && (
+                      <a href={video.posterUrl ?? video.thumbnailUrl} target="_blank" rel="noreferrer">
+                        <img
+                          src={video.thumbnailUrl}
+                          alt={`${video.name} 封面`}
+                          loading="lazy"
+                          className="aspect-video w-full bg-muted object-contain"
+                        />
+                      </a>
+                    )}
                     <CardContent className="p-4">
                       <div className="flex items-center justify-between">
                         <div className="flex-1 min-w-0">
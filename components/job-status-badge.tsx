@@ -0,0 +1,30 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+
+/**
+ * 任务状态，与 `lib/job-queue.ts` 中的 JobStatus 对应。
+ */
+export type JobStatus = "pending" | "processing" | "completed" | "partial" | "failed" | "cancelled"
+
+export const JOB_STATUS_LABEL: Record<JobStatus, string> = {
+  pending: "排队中",
+  processing: "正在渲染",
+  completed: "已完成",
+  partial: "部分完成",
+  failed: "失败",
+  cancelled: "已取消",
+}
+
+const JOB_STATUS_VARIANT: Record<JobStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "outline",
+  processing: "secondary",
+  completed: "default",
+  partial: "secondary",
+  failed: "destructive",
+  cancelled: "outline",
+}
+
+export function JobStatusBadge({ status }: { status: JobStatus }) {
+  return <Badge variant={JOB_STATUS_VARIANT[status]}>{JOB_STATUS_LABEL[status]}</Badge>
+}
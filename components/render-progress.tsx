@@ -1,13 +1,63 @@
 "use client"
 
 import { Progress } from "@/components/ui/progress"
+import { getOutputVariant } from "@/lib/output-variants"
 import { Loader2 } from "lucide-react"
 
+/**
+ * 后端上报的批次阶段，与 `lib/video-processor.ts` 中的 BatchRenderPhase 对应。
+ */
+export type RenderPhase = "preparing" | "rendering" | "finalizing"
+
+/**
+ * 单个输出的渲染进度，与任务快照 metrics.variants 的结构一致。
+ */
+export interface RenderVariantProgress {
+  videoIndex: number
+  videoName: string
+  variant: string
+  phase: "queued" | "rendering" | "retrying" | "poster" | "completed" | "failed"
+  progress: number
+  /** 已开始的渲染次数（含重试） */
+  attempts?: number
+  lastError?: string
+}
+
 interface RenderProgressProps {
   progress: number
+  /** 任务是否仍在排队 */
+  isQueued?: boolean
+  phase?: RenderPhase | null
+  completedVariants?: number
+  totalVariants?: number
+  variants?: RenderVariantProgress[]
+}
+
+const VARIANT_PHASE_LABEL: Record<RenderVariantProgress["phase"], string> = {
+  queued: "等待中",
+  rendering: "合成中",
+  retrying: "等待重试",
+  poster: "生成封面",
+  completed: "已完成",
+  failed: "失败",
 }
 
-export function RenderProgress({ progress }: RenderProgressProps) {
+/**
+ * 根据任务真实阶段生成提示文案。
+ */
+function describePhase({ isQueued, phase, completedVariants, totalVariants }: RenderProgressProps): string {
+  if (isQueued) return "正在排队，等待前面的任务完成..."
+  if (phase === "preparing") return "正在读取源视频信息..."
+  if (phase === "rendering") {
+    return totalVariants ? `正在合成视频（已完成 ${completedVariants ?? 0}/${totalVariants} 个输出）...` : "正在合成视频..."
+  }
+  if (phase === "finalizing") return "正在生成封面并收尾..."
+  return "正在准备任务..."
+}
+
+export function RenderProgress(props: RenderProgressProps) {
+  const { progress, variants = [] } = props
+
   return (
     <div className="space-y-4">
       <div className="flex items-center gap-3">
@@ -20,12 +70,25 @@ export function RenderProgress({ progress }: RenderProgressProps) {
           <Progress value={progress} className="h-2" />
         </div>
       </div>
-      <div className="text-sm text-muted-foreground">
-        {progress < 30 && "正在处理视频文件..."}
-        {progress >= 30 && progress < 60 && "正在应用模板..."}
-        {progress >= 60 && progress < 90 && "正在合成视频..."}
-        {progress >= 90 && "即将完成..."}
-      </div>
+      <div className="text-sm text-muted-foreground">{describePhase(props)}</div>
+      {variants.length > 0 && (
+        <div className="space-y-2">
+          {variants.map((entry) => (
+            <div key={`${entry.videoIndex}-${entry.variant}`} className="space-y-1">
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span className="truncate">
+                  {entry.videoName} · {getOutputVariant(entry.variant)?.label ?? entry.variant}
+                </span>
+                <span className={entry.phase === "failed" ? "text-destructive" : undefined}>
+                  {VARIANT_PHASE_LABEL[entry.phase]}
+                  {entry.attempts && entry.attempts > 1 ? `（第 ${entry.attempts} 次尝试）` : ""} {entry.progress}%
+                </span>
+              </div>
+              <Progress value={entry.progress} className="h-1" />
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   )
 }
@@ -5,28 +5,58 @@ import type React from "react"
 import { useRef } from "react"
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
-import { Upload, X, Video } from "lucide-react"
+import { Upload, X, Video, Captions } from "lucide-react"
 import { cn } from "@/lib/utils"
 
+const SUBTITLE_ACCEPT = ".srt,.ass,.ssa,.vtt"
+
+/**
+ * 一个待上传的源视频及其可选字幕文件。
+ */
+export interface VideoUploadItem {
+  file: File
+  subtitle: File | null
+}
+
 interface VideoUploaderProps {
-  videos: File[]
-  setVideos: (videos: File[]) => void
+  videos: VideoUploadItem[]
+  setVideos: (videos: VideoUploadItem[]) => void
 }
 
 export function VideoUploader({ videos, setVideos }: VideoUploaderProps) {
   const inputRef = useRef<HTMLInputElement>(null)
+  const subtitleInputRef = useRef<HTMLInputElement>(null)
+  const subtitleTargetRef = useRef<number | null>(null)
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = Array.from(e.target.files || [])
+  const appendVideos = (files: File[]) => {
     const videoFiles = files.filter((file) => file.type.startsWith("video/"))
-    setVideos([...videos, ...videoFiles])
+    setVideos([...videos, ...videoFiles.map((file) => ({ file, subtitle: null }))])
+  }
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    appendVideos(Array.from(e.target.files || []))
   }
 
   const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault()
-    const files = Array.from(e.dataTransfer.files)
-    const videoFiles = files.filter((file) => file.type.startsWith("video/"))
-    setVideos([...videos, ...videoFiles])
+    appendVideos(Array.from(e.dataTransfer.files))
+  }
+
+  const openSubtitlePicker = (index: number) => {
+    subtitleTargetRef.current = index
+    subtitleInputRef.current?.click()
+  }
+
+  const handleSubtitleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const subtitle = e.target.files?.[0] ?? null
+    const targetIndex = subtitleTargetRef.current
+    e.target.value = ""
+    if (!subtitle || targetIndex === null) return
+    setVideos(videos.map((item, i) => (i === targetIndex ? { ...item, subtitle } : item)))
+  }
+
+  const removeSubtitle = (index: number) => {
+    setVideos(videos.map((item, i) => (i === index ? { ...item, subtitle: null } : item)))
   }
 
   const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
@@ -66,6 +96,14 @@ export function VideoUploader({ videos, setVideos }: VideoUploaderProps) {
         </div>
       </div>
 
+      <input
+        ref={subtitleInputRef}
+        type="file"
+        accept={SUBTITLE_ACCEPT}
+        className="hidden"
+        onChange={handleSubtitleChange}
+      />
+
       {videos.length > 0 && (
         <div className="space-y-2">
           <p className="text-sm font-medium">已上传 {videos.length} 个视频</p>
@@ -75,9 +113,33 @@ export function VideoUploader({ videos, setVideos }: VideoUploaderProps) {
                 <div className="flex items-center gap-3">
                   <Video className="h-5 w-5 text-muted-foreground flex-shrink-0" />
                   <div className="flex-1 min-w-0">
-                    <p className="text-sm font-medium truncate">{video.name}</p>
-                    <p className="text-xs text-muted-foreground">{formatFileSize(video.size)}</p>
+                    <p className="text-sm font-medium truncate">{video.file.name}</p>
+                    <p className="text-xs text-muted-foreground">{formatFileSize(video.file.size)}</p>
+                    {video.subtitle && (
+                      <div className="mt-1 flex items-center gap-1 text-xs text-muted-foreground">
+                        <Captions className="h-3 w-3 flex-shrink-0" />
+                        <span className="truncate">{video.subtitle.name}</span>
+                        <button
+                          type="button"
+                          onClick={() => removeSubtitle(index)}
+                          className="hover:text-foreground"
+                          aria-label="移除字幕"
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </div>
+                    )}
                   </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => openSubtitlePicker(index)}
+                    className="flex-shrink-0"
+                    title="支持 SRT / ASS / VTT"
+                  >
+                    <Captions className="h-4 w-4 mr-1" />
+                    {video.subtitle ? "更换字幕" : "添加字幕"}
+                  </Button>
                   <Button size="icon" variant="ghost" onClick={() => removeVideo(index)} className="flex-shrink-0">
                     <X className="h-4 w-4" />
                   </Button>
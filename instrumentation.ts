@@ -0,0 +1,15 @@
+/**
+ * Next.js 启动钩子
+ *
+ * 服务启动时从本地任务日志恢复队列（需设置 JOB_QUEUE_JOURNAL_PATH），
+ * 让重启前排队或处理中的任务无需等待新的请求即可继续执行。
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return
+  }
+
+  const { recoverJobQueue } = await import('@/lib/job-queue')
+  recoverJobQueue()
+}
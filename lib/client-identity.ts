@@ -0,0 +1,53 @@
+/**
+ * 请求方匿名身份
+ *
+ * 负责：
+ * 1. 从代理头中解析来源 IP
+ * 2. 计算稳定的匿名指纹（ownerId），用于任务归属、配额与权限校验
+ *
+ * 提交任务、查询 / 取消任务等接口共用同一套规则，保证同一浏览器得到同一个 ownerId。
+ */
+
+import { createHash } from 'node:crypto'
+import type { NextRequest } from 'next/server'
+
+/**
+ * 解析请求中的来源 IP：优先使用代理透传的 X-Forwarded-For，其次使用 X-Real-IP。
+ *
+ * @param req - 来自 Next.js 的请求对象
+ * @returns 字符串形式的 IP 地址，若无法识别则返回 'unknown'
+ */
+function resolveClientIp(req: NextRequest): string {
+  const forwardedFor = req.headers.get('x-forwarded-for')
+  if (forwardedFor) {
+    const firstIp = forwardedFor.split(',')[0]?.trim()
+    if (firstIp) {
+      return firstIp
+    }
+  }
+  const realIp = req.headers.get('x-real-ip')
+  if (realIp) {
+    return realIp.trim()
+  }
+  return 'unknown'
+}
+
+/**
+ * 基于 IP、User-Agent、Accept-Language 计算一个稳定的匿名指纹，
+ * 既能用于公平队列，又避免直接存储用户隐私。
+ *
+ * @param req - 当前 HTTP 请求
+ * @returns 包含 ownerId（匿名指纹）和原始 IP 的对象
+ */
+export function deriveClientFingerprint(req: NextRequest): { ownerId: string; sourceIp: string } {
+  const sourceIp = resolveClientIp(req)
+  const userAgent = req.headers.get('user-agent') ?? 'unknown-agent'
+  const acceptLanguage = req.headers.get('accept-language') ?? 'unknown-lang'
+  const rawFingerprint = `${sourceIp}|${userAgent}|${acceptLanguage}`
+  const hash = createHash('sha256').update(rawFingerprint).digest('hex')
+
+  return {
+    ownerId: `anon_${hash.slice(0, 16)}`,
+    sourceIp,
+  }
+}
@@ -0,0 +1,283 @@
+/**
+ * 失败任务的调试包
+ *
+ * 默认情况下任务结束后上传的临时文件会被删除，失败时只剩下一条错误信息。
+ * 设置 RETAIN_FAILED_JOB_INPUTS=true 后，失败（含部分失败）的任务会把输入文件移入调试包目录，并写入：
+ * - manifest.json：任务信息、处理参数（路径改为包内相对路径，含模板元数据）、每个输入的 ffprobe 结果、
+ *   每次合成实际使用的 FFmpeg 输入 / 滤镜图 / 输出参数
+ * - job.log：任务运行日志（含 FFmpeg 完整命令与 stderr）
+ * - inputs/：源视频、字幕、模板、背景图、片头片尾
+ *
+ * 调试包可通过 GET /api/process/:jobId/debug-bundle 下载为 zip，
+ * 解压后用 `pnpm replay-bundle <目录>` 在本地重放。
+ * 目录默认位于系统临时目录下的 video-debug-bundles，可通过 DEBUG_BUNDLE_DIRECTORY 指定，保留 3 天。
+ */
+
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import archiver from 'archiver'
+import { PassThrough, Readable } from 'node:stream'
+
+import { readJobLog } from '@/lib/job-logs'
+import { logger } from '@/lib/logger'
+import {
+  readFfprobeData,
+  type RenderSpecRecord,
+  type VariantOutputStatus,
+  type VideoProcessorPayload,
+} from '@/lib/video-processor'
+
+const DEBUG_BUNDLES_ENABLED = process.env.RETAIN_FAILED_JOB_INPUTS === 'true'
+const DEBUG_BUNDLE_DIRECTORY =
+  process.env.DEBUG_BUNDLE_DIRECTORY?.trim() || path.join(os.tmpdir(), 'video-debug-bundles')
+const DEBUG_BUNDLE_RETENTION_MS = 3 * 24 * 60 * 60 * 1000
+const DEBUG_BUNDLE_VERSION = 1
+const MANIFEST_FILENAME = 'manifest.json'
+const JOB_ID_PATTERN = /^[A-Za-z0-9_-]+$/
+
+/**
+ * 调试包清单。payload 中的文件路径均为相对调试包根目录的路径。
+ */
+export interface DebugBundleManifest {
+  version: number
+  jobId: string
+  ownerId: string
+  createdAt: number
+  status: string
+  error?: string
+  message?: string
+  payload: VideoProcessorPayload
+  outputs: VariantOutputStatus[]
+  /** 以包内相对路径为键的 ffprobe 结果；读取失败时记录错误信息 */
+  probes: Record<string, unknown>
+  /** 每次合成尝试的 FFmpeg 参数，路径为服务器上的原始路径 */
+  renderSpecs: RenderSpecRecord[]
+}
+
+/**
+ * 生成调试包所需的任务信息。
+ */
+export interface DebugBundleSource {
+  jobId: string
+  ownerId: string
+  status: string
+  error?: string
+  message?: string
+  payload: VideoProcessorPayload
+  outputs: VariantOutputStatus[]
+  renderSpecs: RenderSpecRecord[]
+}
+
+/**
+ * 是否开启了失败任务保留输入的模式。
+ */
+export function isDebugBundleEnabled(): boolean {
+  return DEBUG_BUNDLES_ENABLED
+}
+
+/**
+ * 返回任务调试包的目录；jobId 不合法时返回 null。
+ */
+function resolveBundleDirectory(jobId: string): string | null {
+  return JOB_ID_PATTERN.test(jobId) ? path.join(DEBUG_BUNDLE_DIRECTORY, jobId) : null
+}
+
+/**
+ * 按映射函数改写 payload 中所有文件路径，返回新的 payload。
+ */
+export function mapPayloadFilePaths(
+  payload: VideoProcessorPayload,
+  mapPath: (filePath: string) => string,
+): VideoProcessorPayload {
+  const videos = payload.videos.map((video) => ({
+    ...video,
+    path: mapPath(video.path),
+    subtitle: video.subtitle ? { ...video.subtitle, path: mapPath(video.subtitle.path) } : video.subtitle,
+  }))
+
+  const templates: VideoProcessorPayload['templates'] = {}
+  for (const [variant, template] of Object.entries(payload.templates)) {
+    if (!template) continue
+    templates[variant] = {
+      ...template,
+      path: mapPath(template.path),
+      background:
+        template.background?.mode === 'image'
+          ? { ...template.background, path: mapPath(template.background.path) }
+          : template.background,
+      intro: template.intro ? { ...template.intro, path: mapPath(template.intro.path) } : template.intro,
+      outro: template.outro ? { ...template.outro, path: mapPath(template.outro.path) } : template.outro,
+    }
+  }
+
+  return { ...payload, videos, templates }
+}
+
+/**
+ * 移动文件；跨文件系统时改为复制后删除。
+ */
+async function moveFile(from: string, to: string): Promise<void> {
+  try {
+    await fs.promises.rename(from, to)
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+      throw error
+    }
+    await fs.promises.copyFile(from, to)
+    await fs.promises.unlink(from)
+  }
+}
+
+/**
+ * 删除超过保留期的调试包。
+ */
+async function pruneExpiredDebugBundles(): Promise<void> {
+  const now = Date.now()
+  const entries = await fs.promises.readdir(DEBUG_BUNDLE_DIRECTORY).catch(() => [])
+  for (const entry of entries) {
+    const bundleDirectory = path.join(DEBUG_BUNDLE_DIRECTORY, entry)
+    try {
+      const stats = await fs.promises.stat(bundleDirectory)
+      if (now - stats.mtimeMs > DEBUG_BUNDLE_RETENTION_MS) {
+        await fs.promises.rm(bundleDirectory, { recursive: true, force: true })
+      }
+    } catch (error) {
+      logger.warn(`⚠️  清理过期调试包失败: ${bundleDirectory}`, { error })
+    }
+  }
+}
+
+/**
+ * 为失败的任务生成调试包：把输入文件移入调试包目录并写入清单与运行日志。
+ * 生成失败只记录警告，调用方随后照常清理剩余的临时文件。
+ *
+ * @param source - 任务信息与渲染过程中记录的 FFmpeg 参数
+ * @returns 调试包目录；未开启或生成失败时返回 null
+ */
+export async function createDebugBundle(source: DebugBundleSource): Promise<string | null> {
+  const bundleDirectory = resolveBundleDirectory(source.jobId)
+  if (!DEBUG_BUNDLES_ENABLED || !bundleDirectory) {
+    return null
+  }
+
+  try {
+    await pruneExpiredDebugBundles()
+    const inputsDirectory = path.join(bundleDirectory, 'inputs')
+    await fs.promises.mkdir(inputsDirectory, { recursive: true })
+
+    // 同一文件可能被多处引用（例如多个尺寸共用背景图），只移动一次
+    const relocated = new Map<string, string>()
+    mapPayloadFilePaths(source.payload, (filePath) => {
+      if (!relocated.has(filePath)) {
+        const index = String(relocated.size + 1).padStart(2, '0')
+        relocated.set(filePath, path.posix.join('inputs', `${index}_${path.basename(filePath)}`))
+      }
+      return filePath
+    })
+
+    const probes: Record<string, unknown> = {}
+    for (const [originalPath, relativePath] of relocated) {
+      if (!fs.existsSync(originalPath)) {
+        probes[relativePath] = { error: '文件已不存在' }
+        continue
+      }
+      await moveFile(originalPath, path.join(bundleDirectory, relativePath))
+      probes[relativePath] = await readFfprobeData(path.join(bundleDirectory, relativePath)).catch(
+        (error: unknown) => ({ error: error instanceof Error ? error.message : String(error) }),
+      )
+    }
+
+    const manifest: DebugBundleManifest = {
+      version: DEBUG_BUNDLE_VERSION,
+      jobId: source.jobId,
+      ownerId: source.ownerId,
+      createdAt: Date.now(),
+      status: source.status,
+      error: source.error,
+      message: source.message,
+      payload: mapPayloadFilePaths(source.payload, (filePath) => relocated.get(filePath) ?? filePath),
+      outputs: source.outputs,
+      probes,
+      renderSpecs: source.renderSpecs,
+    }
+    await fs.promises.writeFile(path.join(bundleDirectory, MANIFEST_FILENAME), JSON.stringify(manifest, null, 2))
+
+    const jobLog = await readJobLog(source.jobId)
+    if (jobLog !== null) {
+      await fs.promises.writeFile(path.join(bundleDirectory, 'job.log'), jobLog)
+    }
+
+    logger.info(`🧰 已生成调试包: ${bundleDirectory}（${relocated.size} 个输入文件）`)
+    return bundleDirectory
+  } catch (error) {
+    logger.warn(`⚠️  生成调试包失败: ${bundleDirectory}`, { error })
+    return null
+  }
+}
+
+/**
+ * 读取调试包清单，并把 payload 中的相对路径还原为绝对路径，可直接交给 processVideoBatch。
+ *
+ * @param bundleDirectory - 调试包目录（服务器上的目录或解压后的 zip）
+ */
+export async function loadDebugBundle(
+  bundleDirectory: string,
+): Promise<{ manifest: DebugBundleManifest; payload: VideoProcessorPayload }> {
+  const raw = await fs.promises.readFile(path.join(bundleDirectory, MANIFEST_FILENAME), 'utf8')
+  const manifest = JSON.parse(raw) as DebugBundleManifest
+  if (manifest.version !== DEBUG_BUNDLE_VERSION) {
+    throw new Error(`不支持的调试包版本: ${manifest.version}`)
+  }
+
+  const payload = mapPayloadFilePaths(manifest.payload, (relativePath) =>
+    path.resolve(bundleDirectory, relativePath),
+  )
+  return { manifest, payload }
+}
+
+/**
+ * 查找属于指定用户的调试包。
+ *
+ * @param jobId - 任务 ID
+ * @param ownerId - 请求方的匿名指纹，只能下载自己任务的调试包
+ * @returns 调试包目录；不存在或不属于该用户时返回 null
+ */
+export async function findDebugBundle(jobId: string, ownerId: string): Promise<string | null> {
+  const bundleDirectory = resolveBundleDirectory(jobId)
+  if (!bundleDirectory) {
+    return null
+  }
+
+  try {
+    const raw = await fs.promises.readFile(path.join(bundleDirectory, MANIFEST_FILENAME), 'utf8')
+    const manifest = JSON.parse(raw) as DebugBundleManifest
+    return manifest.ownerId === ownerId ? bundleDirectory : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * 将调试包目录打包为 zip 流。
+ *
+ * @param bundleDirectory - 调试包目录
+ * @returns Web ReadableStream，可直接返回给 NextResponse
+ */
+export function createDebugBundleArchiveStream(bundleDirectory: string): ReadableStream {
+  const archive = archiver('zip', { zlib: { level: 6 } })
+  const passThrough = new PassThrough()
+
+  archive.on('warning', (warning) => {
+    logger.warn('⚠️ 调试包打包警告', { warning })
+  })
+  archive.on('error', (error) => {
+    passThrough.destroy(error)
+  })
+
+  archive.pipe(passThrough)
+  archive.directory(bundleDirectory, false)
+  void archive.finalize()
+
+  return Readable.toWeb(passThrough) as ReadableStream
+}
@@ -0,0 +1,129 @@
+/**
+ * 编码配置（Encoding Profile）注册表
+ *
+ * 负责：
+ * 1. 声明可按任务选择的编码规格（编码器、CRF/码率、预设、封装格式）
+ * 2. 将编码规格转换为 FFmpeg 输出参数，供所有尺寸的渲染共用
+ *
+ * 同一份合成画面可以按客户的技术规格交付，无需修改渲染代码。
+ */
+
+/**
+ * 输出文件的封装格式，同时决定文件扩展名。
+ */
+export type OutputContainer = 'mp4' | 'webm' | 'mov'
+
+/**
+ * 一个完整的编码配置。
+ */
+export interface EncodingProfile {
+  /** 唯一标识，用于 /api/process 的 encodingProfile 字段 */
+  id: string
+  /** 面向用户的名称 */
+  label: string
+  /** 封装格式 */
+  container: OutputContainer
+  /** 视频编码参数（包含 -c:v） */
+  videoOptions: string[]
+  /** 音频编码参数（包含 -c:a） */
+  audioOptions: string[]
+  /** 输出像素格式 */
+  pixelFormat: string
+  /** 封装层参数，例如 MP4 的 faststart */
+  containerOptions: string[]
+}
+
+/**
+ * 未指定时使用的编码配置，与历史输出保持一致。
+ */
+export const DEFAULT_ENCODING_PROFILE_ID = 'h264-master'
+
+const ENCODING_PROFILES: EncodingProfile[] = [
+  {
+    id: 'h264-master',
+    label: 'Master H.264（CRF 18）',
+    container: 'mp4',
+    videoOptions: ['-c:v', 'libx264', '-preset', 'slow', '-crf', '18'],
+    audioOptions: ['-c:a', 'aac', '-b:a', '192k'],
+    pixelFormat: 'yuv420p',
+    containerOptions: ['-movflags', '+faststart'],
+  },
+  {
+    id: 'hevc-web',
+    label: 'Web HEVC（CRF 26）',
+    container: 'mp4',
+    videoOptions: ['-c:v', 'libx265', '-preset', 'medium', '-crf', '26', '-tag:v', 'hvc1'],
+    audioOptions: ['-c:a', 'aac', '-b:a', '128k'],
+    pixelFormat: 'yuv420p',
+    containerOptions: ['-movflags', '+faststart'],
+  },
+  {
+    id: 'vp9-webm',
+    label: 'VP9 WebM（CRF 32）',
+    container: 'webm',
+    videoOptions: ['-c:v', 'libvpx-vp9', '-crf', '32', '-b:v', '0', '-row-mt', '1'],
+    audioOptions: ['-c:a', 'libopus', '-b:a', '128k'],
+    pixelFormat: 'yuv420p',
+    containerOptions: [],
+  },
+  {
+    id: 'prores-proxy',
+    label: 'ProRes 422 Proxy',
+    container: 'mov',
+    videoOptions: ['-c:v', 'prores_ks', '-profile:v', '0', '-vendor', 'apl0'],
+    audioOptions: ['-c:a', 'pcm_s16le'],
+    pixelFormat: 'yuv422p10le',
+    containerOptions: [],
+  },
+]
+
+/**
+ * 草稿渲染（quality=draft）使用的编码配置：快速预设、较高 CRF，只用于审片。
+ * 不在可选列表中，无法通过 encodingProfile 字段直接选择。
+ */
+export const DRAFT_ENCODING_PROFILE: EncodingProfile = {
+  id: 'h264-draft',
+  label: '草稿 H.264（veryfast）',
+  container: 'mp4',
+  videoOptions: ['-c:v', 'libx264', '-preset', 'veryfast', '-crf', '28'],
+  audioOptions: ['-c:a', 'aac', '-b:a', '128k'],
+  pixelFormat: 'yuv420p',
+  containerOptions: ['-movflags', '+faststart'],
+}
+
+const profileRegistry = new Map<string, EncodingProfile>(ENCODING_PROFILES.map((profile) => [profile.id, profile]))
+
+/**
+ * 返回所有可选的编码配置。
+ */
+export function listEncodingProfiles(): EncodingProfile[] {
+  return Array.from(profileRegistry.values())
+}
+
+/**
+ * 根据 id 查找编码配置；不存在时返回 undefined。
+ */
+export function getEncodingProfile(id: string): EncodingProfile | undefined {
+  return profileRegistry.get(id)
+}
+
+/**
+ * 根据 id 查找编码配置；未指定时返回默认配置，不存在时抛出错误。
+ */
+export function requireEncodingProfile(id?: string | null): EncodingProfile {
+  const profile = profileRegistry.get(id ?? DEFAULT_ENCODING_PROFILE_ID)
+  if (!profile) {
+    throw new Error(`未知的编码配置: ${id}`)
+  }
+  return profile
+}
+
+/**
+ * 将编码配置转换为 FFmpeg 输出参数。
+ *
+ * @param profile - 编码配置
+ * @returns 可直接传给 outputOptions 的参数数组
+ */
+export function buildEncodingOutputOptions(profile: EncodingProfile): string[] {
+  return [...profile.videoOptions, ...profile.audioOptions, '-pix_fmt', profile.pixelFormat, ...profile.containerOptions]
+}
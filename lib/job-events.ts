@@ -0,0 +1,54 @@
+/**
+ * 任务快照事件总线
+ *
+ * 队列在每次写出任务快照时发布事件，SSE 接口按 jobId 订阅后推送给前端。
+ * 事件总线挂在 globalThis 上，保证启动钩子、各路由加载的模块副本共用同一个实例。
+ */
+
+import { EventEmitter } from 'events'
+
+import type { JobSnapshot } from '@/lib/job-queue'
+
+const globalEventsKey = Symbol.for('__videoJobEvents')
+
+const jobEvents: EventEmitter =
+  ((globalThis as Record<PropertyKey, unknown>)[globalEventsKey] as EventEmitter | undefined) ??
+  ((globalThis as Record<PropertyKey, unknown>)[globalEventsKey] = new EventEmitter().setMaxListeners(0))
+
+/**
+ * 拼接任务对应的事件名。
+ */
+function buildEventName(jobId: string): string {
+  return `job:${jobId}`
+}
+
+/**
+ * 发布任务的最新快照。
+ *
+ * @param snapshot - 刚写出的任务快照
+ */
+export function publishJobSnapshot(snapshot: JobSnapshot): void {
+  jobEvents.emit(buildEventName(snapshot.id), snapshot)
+}
+
+/**
+ * 指定任务当前是否有订阅者，便于发布方跳过无人关心的快照计算。
+ */
+export function hasJobSubscribers(jobId: string): boolean {
+  return jobEvents.listenerCount(buildEventName(jobId)) > 0
+}
+
+/**
+ * 订阅指定任务的快照变化。
+ *
+ * @param jobId - 任务 ID
+ * @param listener - 每次快照变化时的回调
+ * @returns 取消订阅的函数
+ */
+export function subscribeJobSnapshots(jobId: string, listener: (snapshot: JobSnapshot) => void): () => void {
+  const eventName = buildEventName(jobId)
+  jobEvents.on(eventName, listener)
+  return () => {
+    jobEvents.off(eventName, listener)
+  }
+}
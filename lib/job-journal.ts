@@ -0,0 +1,138 @@
+/**
+ * 任务队列本地日志（append-only JSONL）
+ *
+ * 负责：
+ * 1. 在任务状态变化时把完整的任务记录（含上传文件路径）追加写入本地磁盘
+ * 2. 进程重启时读回每个任务的最新记录，供队列恢复排队与中断的任务
+ * 3. 日志过长时整体重写（压缩），只保留仍需要的记录
+ *
+ * 仅在设置 JOB_QUEUE_JOURNAL_PATH 时启用，适用于单机自托管部署；
+ * Serverless 环境的本地磁盘不会在实例之间共享，不建议开启。
+ */
+
+import fs from 'fs'
+import path from 'path'
+
+import { logger } from '@/lib/logger'
+
+/**
+ * 日志中的任务记录只要求带有 id，具体结构由队列模块决定。
+ */
+export interface JournalRecord {
+  id: string
+}
+
+interface JournalEntry<T extends JournalRecord> {
+  /** 写入时间（毫秒时间戳） */
+  at: number
+  record: T
+}
+
+/**
+ * 追加多少条记录后建议压缩日志。
+ */
+const JOURNAL_COMPACT_THRESHOLD = 500
+
+const JOURNAL_PATH = process.env.JOB_QUEUE_JOURNAL_PATH?.trim() || null
+
+let entriesSinceCompaction = 0
+
+/**
+ * 是否启用了本地任务日志。
+ */
+export function isJobJournalEnabled(): boolean {
+  return JOURNAL_PATH !== null
+}
+
+/**
+ * 追加一条任务记录；写入失败只记录警告，不影响任务本身。
+ *
+ * @param record - 任务的完整记录，需可被 JSON 序列化
+ */
+export function appendJobJournal<T extends JournalRecord>(record: T): void {
+  if (!JOURNAL_PATH) {
+    return
+  }
+
+  const entry: JournalEntry<T> = { at: Date.now(), record }
+  try {
+    fs.mkdirSync(path.dirname(JOURNAL_PATH), { recursive: true })
+    fs.appendFileSync(JOURNAL_PATH, `${JSON.stringify(entry)}\n`)
+    entriesSinceCompaction += 1
+  } catch (error) {
+    logger.warn(`⚠️  写入任务日志失败: ${JOURNAL_PATH}`, { error })
+  }
+}
+
+/**
+ * 自上次压缩以来追加的记录是否已超过阈值。
+ */
+export function shouldCompactJobJournal(): boolean {
+  return JOURNAL_PATH !== null && entriesSinceCompaction >= JOURNAL_COMPACT_THRESHOLD
+}
+
+/**
+ * 读取日志中每个任务的最新记录。
+ * 进程崩溃时最后一行可能只写了一半，无法解析的行会被跳过。
+ *
+ * @returns 按首次出现顺序排列的最新任务记录
+ */
+export function readJobJournal<T extends JournalRecord>(): T[] {
+  if (!JOURNAL_PATH || !fs.existsSync(JOURNAL_PATH)) {
+    return []
+  }
+
+  let content: string
+  try {
+    content = fs.readFileSync(JOURNAL_PATH, 'utf8')
+  } catch (error) {
+    logger.warn(`⚠️  读取任务日志失败: ${JOURNAL_PATH}`, { error })
+    return []
+  }
+
+  const latestRecords = new Map<string, T>()
+  let skippedLines = 0
+  for (const line of content.split('\n')) {
+    if (!line.trim()) {
+      continue
+    }
+    try {
+      const entry = JSON.parse(line) as JournalEntry<T>
+      if (entry?.record?.id) {
+        latestRecords.set(entry.record.id, entry.record)
+      } else {
+        skippedLines += 1
+      }
+    } catch {
+      skippedLines += 1
+    }
+  }
+
+  if (skippedLines > 0) {
+    logger.warn(`⚠️  任务日志中有 ${skippedLines} 行无法解析，已跳过`)
+  }
+  return Array.from(latestRecords.values())
+}
+
+/**
+ * 用给定的记录整体重写日志（先写临时文件再替换，避免重写过程中崩溃导致日志损坏）。
+ *
+ * @param records - 需要保留的任务记录
+ */
+export function rewriteJobJournal<T extends JournalRecord>(records: T[]): void {
+  if (!JOURNAL_PATH) {
+    return
+  }
+
+  const temporaryPath = `${JOURNAL_PATH}.${process.pid}.tmp`
+  const at = Date.now()
+  try {
+    fs.mkdirSync(path.dirname(JOURNAL_PATH), { recursive: true })
+    const content = records.map((record) => `${JSON.stringify({ at, record } satisfies JournalEntry<T>)}\n`).join('')
+    fs.writeFileSync(temporaryPath, content)
+    fs.renameSync(temporaryPath, JOURNAL_PATH)
+    entriesSinceCompaction = 0
+  } catch (error) {
+    logger.warn(`⚠️  压缩任务日志失败: ${JOURNAL_PATH}`, { error })
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * 单个任务的运行日志
+ *
+ * 每个任务一个文本文件，记录该任务相关的日志行以及每次 FFmpeg 调用的完整命令与 stderr，
+ * 供 GET /api/process/:jobId/logs 下载，排查失败的渲染时不必再按时间翻服务端日志。
+ *
+ * 默认写入系统临时目录下的 video-job-logs，可通过 JOB_LOG_DIRECTORY 指定；
+ * 单个文件超过 5MB 后不再追加，超过 24 小时的日志在写入新任务运行日志时顺带清理。
+ * 渲染时 FFmpeg 每秒会输出大量 stderr，日志行先在内存中缓冲，每 100ms 异步追加一次，不阻塞事件循环。
+ */
+
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+import { logger } from '@/lib/logger'
+
+const JOB_LOG_DIRECTORY = process.env.JOB_LOG_DIRECTORY?.trim() || path.join(os.tmpdir(), 'video-job-logs')
+const MAX_JOB_LOG_BYTES = 5 * 1024 * 1024
+/** 与已结束任务在队列中的保留时长一致 */
+const JOB_LOG_RETENTION_MS = 24 * 60 * 60 * 1000
+const JOB_LOG_PRUNE_INTERVAL_MS = 60 * 60 * 1000
+const JOB_LOG_FLUSH_DELAY_MS = 100
+const JOB_ID_PATTERN = /^[A-Za-z0-9_-]+$/
+
+interface JobLogState {
+  /** 各任务运行日志已写入的字节数；达到上限后记为 Infinity */
+  sizes: Map<string, number>
+  lastPrunedAt: number
+  /** 各任务尚未写入文件的日志内容 */
+  buffers: Map<string, string[]>
+  /** 各任务最近一次排队的异步写入，同一任务的写入按顺序串行 */
+  writes: Map<string, Promise<void>>
+}
+
+const globalJobLogStateKey = Symbol.for('__videoJobLogs')
+
+const jobLogState: JobLogState =
+  ((globalThis as Record<PropertyKey, unknown>)[globalJobLogStateKey] as JobLogState | undefined) ??
+  ((globalThis as Record<PropertyKey, unknown>)[globalJobLogStateKey] = {
+    sizes: new Map(),
+    lastPrunedAt: 0,
+    buffers: new Map(),
+    writes: new Map(),
+  } satisfies JobLogState)
+
+/**
+ * 拼接任务运行日志路径；jobId 含路径字符时返回 null，防止写到日志目录之外。
+ */
+function resolveJobLogPath(jobId: string): string | null {
+  if (!JOB_ID_PATTERN.test(jobId)) {
+    return null
+  }
+  return path.join(JOB_LOG_DIRECTORY, `${jobId}.log`)
+}
+
+/**
+ * 删除超过保留期的任务运行日志，最多每小时执行一次。
+ */
+function pruneExpiredJobLogs(): void {
+  const now = Date.now()
+  if (now - jobLogState.lastPrunedAt < JOB_LOG_PRUNE_INTERVAL_MS) {
+    return
+  }
+  jobLogState.lastPrunedAt = now
+
+  try {
+    for (const entry of fs.readdirSync(JOB_LOG_DIRECTORY)) {
+      const filePath = path.join(JOB_LOG_DIRECTORY, entry)
+      if (now - fs.statSync(filePath).mtimeMs > JOB_LOG_RETENTION_MS) {
+        fs.unlinkSync(filePath)
+        jobLogState.sizes.delete(path.parse(entry).name)
+      }
+    }
+  } catch (error) {
+    logger.warn(`⚠️  清理过期任务运行日志失败: ${JOB_LOG_DIRECTORY}`, { error })
+  }
+}
+
+/**
+ * 把日志内容放入缓冲区；该任务没有待写入的缓冲时，排队一次延迟的异步追加，把期间积累的内容一次写入。
+ */
+function enqueueJobLogWrite(jobId: string, logPath: string, content: string): void {
+  const buffered = jobLogState.buffers.get(jobId)
+  if (buffered) {
+    buffered.push(content)
+    return
+  }
+  jobLogState.buffers.set(jobId, [content])
+
+  const previous = jobLogState.writes.get(jobId) ?? Promise.resolve()
+  const write: Promise<void> = previous
+    .then(() => new Promise<void>((resolve) => setTimeout(resolve, JOB_LOG_FLUSH_DELAY_MS)))
+    .then(async () => {
+      const chunk = jobLogState.buffers.get(jobId)?.join('') ?? ''
+      jobLogState.buffers.delete(jobId)
+      await fs.promises.appendFile(logPath, chunk)
+    })
+    .catch((error: unknown) => {
+      // 先停止继续写这个任务，避免警告本身再写入该任务的日志
+      jobLogState.sizes.set(jobId, Number.POSITIVE_INFINITY)
+      jobLogState.buffers.delete(jobId)
+      logger.warn(`⚠️  写入任务运行日志失败: ${logPath}`, { error })
+    })
+    .finally(() => {
+      if (jobLogState.writes.get(jobId) === write) {
+        jobLogState.writes.delete(jobId)
+      }
+    })
+  jobLogState.writes.set(jobId, write)
+}
+
+/**
+ * 等待任务缓冲中的日志全部写入文件。
+ */
+async function flushJobLog(jobId: string): Promise<void> {
+  let pending = jobLogState.writes.get(jobId)
+  while (pending) {
+    await pending
+    pending = jobLogState.writes.get(jobId)
+  }
+}
+
+/**
+ * 向任务运行日志追加一行（异步批量写入）。写入失败只打印警告，不影响渲染。
+ *
+ * @param jobId - 任务 ID
+ * @param line - 不含换行符的日志行
+ */
+export function appendJobLogLine(jobId: string, line: string): void {
+  const logPath = resolveJobLogPath(jobId)
+  if (!logPath) {
+    return
+  }
+
+  try {
+    let size = jobLogState.sizes.get(jobId)
+    if (size === undefined) {
+      // 本进程第一次写这个任务（新任务或重启后恢复的任务）
+      fs.mkdirSync(JOB_LOG_DIRECTORY, { recursive: true })
+      pruneExpiredJobLogs()
+      size = fs.existsSync(logPath) ? fs.statSync(logPath).size : 0
+    }
+    if (size === Number.POSITIVE_INFINITY) {
+      return
+    }
+
+    const content = `${line}\n`
+    const bytes = Buffer.byteLength(content)
+    if (size + bytes > MAX_JOB_LOG_BYTES) {
+      jobLogState.sizes.set(jobId, Number.POSITIVE_INFINITY)
+      enqueueJobLogWrite(jobId, logPath, `日志超过 ${MAX_JOB_LOG_BYTES / 1024 / 1024}MB，后续内容已省略\n`)
+      return
+    }
+
+    jobLogState.sizes.set(jobId, size + bytes)
+    enqueueJobLogWrite(jobId, logPath, content)
+  } catch (error) {
+    // 停止继续写这个任务，避免每行日志都打印一次同样的警告
+    jobLogState.sizes.set(jobId, Number.POSITIVE_INFINITY)
+    logger.warn(`⚠️  写入任务运行日志失败: ${logPath}`, { error })
+  }
+}
+
+/**
+ * 读取任务运行日志全文，读取前先写入缓冲中的内容。
+ *
+ * @param jobId - 任务 ID
+ * @returns 日志内容；尚未产生日志或已被清理时返回 null
+ */
+export async function readJobLog(jobId: string): Promise<string | null> {
+  const logPath = resolveJobLogPath(jobId)
+  if (!logPath) {
+    return null
+  }
+
+  try {
+    await flushJobLog(jobId)
+    return await fs.promises.readFile(logPath, 'utf8')
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null
+    }
+    throw error
+  }
+}
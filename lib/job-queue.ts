@@ -10,11 +10,35 @@
 import fs from 'fs'
 import { randomUUID } from 'crypto'
 import {
+  DEFAULT_RENDER_QUALITY,
   processVideoBatch,
+  type BatchRenderPhase,
+  type VariantRenderPhase,
   type VideoProcessorPayload,
   type GeneratedVideoResult,
+  type RenderQuality,
+  type RenderSpecRecord,
+  type VariantOutputStatus,
 } from '@/lib/video-processor'
+import { createDebugBundle, isDebugBundleEnabled } from '@/lib/debug-bundles'
+import {
+  DEFAULT_ENCODING_PROFILE_ID,
+  getEncodingProfile,
+  requireEncodingProfile,
+  type OutputContainer,
+} from '@/lib/encoding-profiles'
+import { hasJobSubscribers, publishJobSnapshot } from '@/lib/job-events'
+import {
+  appendJobJournal,
+  isJobJournalEnabled,
+  readJobJournal,
+  rewriteJobJournal,
+  shouldCompactJobJournal,
+} from '@/lib/job-journal'
 import { persistJobSnapshot } from '@/lib/job-store'
+import { logger, runWithLogContext } from '@/lib/logger'
+import { incrementCounter, observeHistogram } from '@/lib/metrics'
+import { deliverWebhook, type WebhookDelivery } from '@/lib/webhooks'
 
 /**
  * 估算等待时间的默认回退（2 分钟），单位：毫秒。
@@ -38,11 +62,77 @@ const CIRCUIT_BREAKER_FAILURE_THRESHOLD = 2
  * 熔断维持的最短冷却时间。
  */
 const CIRCUIT_BREAKER_COOLDOWN_MS = 60 * 1000
+/**
+ * 渲染进度写入持久化存储（KV/Blob）的最短间隔；阶段或完成数量变化时立即写入。
+ */
+const PROGRESS_PERSIST_INTERVAL_MS = 15 * 1000
+/**
+ * 渲染进度推送给 SSE 订阅者的最短间隔，仅在内存中广播，开销远小于持久化。
+ */
+const PROGRESS_PUBLISH_INTERVAL_MS = 1000
+/**
+ * 任务开始处理时的初始进度，其余 94% 按渲染进度线性映射。
+ */
+const PROCESSING_BASE_PROGRESS = 5
+/**
+ * 公平调度记录各用户最近一次被服务时间的保留时长（1 小时），超过后视为从未被服务。
+ */
+const OWNER_FAIRNESS_WINDOW_MS = 60 * 60 * 1000
+/**
+ * 已结束任务在内存与本地任务日志中的保留时长（24 小时），期间（含重启后）仍可查询其结果。
+ */
+const FINISHED_JOB_RETENTION_MS = 24 * 60 * 60 * 1000
+/**
+ * 草稿任务保留上传素材的时长（毫秒），期间可转为正式渲染，与已结束任务的保留时长一致。
+ */
+const DRAFT_INPUT_RETENTION_MS = FINISHED_JOB_RETENTION_MS
+/**
+ * 同一任务因服务重启被中断的最多次数；超过后视为任务本身导致进程崩溃，不再重新排队。
+ */
+const MAX_INTERRUPTED_RUNS = 2
+
+/**
+ * 任务状态枚举；partial 表示部分输出成功、部分失败，成功的文件仍可下载。
+ */
+export type JobStatus = 'pending' | 'processing' | 'completed' | 'partial' | 'failed' | 'cancelled'
+
+/**
+ * 任务结果：videos 为可下载的成片，outputs 记录每个输出的成败与错误信息。
+ */
+export interface JobResult {
+  videos: GeneratedVideoResult[]
+  outputs: VariantOutputStatus[]
+}
+
+/**
+ * 任务优先级：urgent 任务整体排在 normal 任务之前，同一优先级内按用户轮转。
+ */
+export type JobPriority = 'normal' | 'urgent'
+
+/**
+ * 调度时依次处理的优先级。
+ */
+const JOB_PRIORITY_ORDER: JobPriority[] = ['urgent', 'normal']
+
+/**
+ * 草稿转为正式渲染的结果：任务不存在（或不属于当前用户）、不是草稿、草稿尚未成功完成、
+ * 已转过正式渲染、上传的素材已过期清理、已创建正式渲染任务。
+ */
+export type PromoteJobResult =
+  | { outcome: 'not_found' }
+  | { outcome: 'not_draft'; snapshot: JobSnapshot }
+  | { outcome: 'not_ready'; snapshot: JobSnapshot }
+  | { outcome: 'already_promoted'; snapshot: JobSnapshot }
+  | { outcome: 'inputs_expired'; snapshot: JobSnapshot }
+  | { outcome: 'promoted'; snapshot: JobSnapshot }
 
 /**
- * 任务状态枚举。
+ * 取消任务的结果：任务不存在（或不属于当前用户）、任务已结束、取消成功。
  */
-export type JobStatus = 'pending' | 'processing' | 'completed' | 'failed'
+export type CancelJobResult =
+  | { outcome: 'not_found' }
+  | { outcome: 'already_finished'; snapshot: JobSnapshot }
+  | { outcome: 'cancelled'; snapshot: JobSnapshot }
 
 /**
  * 对外暴露的任务查询结果。
@@ -53,21 +143,63 @@ export interface JobSnapshot {
   progress: number
   createdAt: number
   updatedAt: number
+  /** 结束时间；未结束时为 null */
+  finishedAt: number | null
+  priority: JobPriority
+  /** 按真实调度顺序计算的前方任务数（含正在处理的任务），处理中或已结束时为 0 */
   queuePosition: number
   estimatedWaitMs: number
   averageJobDurationMs: number
   message?: string
-  result?: { videos: GeneratedVideoResult[] }
+  result?: JobResult
   error?: string
-  metrics: {
-    completedVariants: number
-    totalVariants: number
+  /** 任务选择的编码配置；草稿实际使用快速配置，转为正式渲染后按此配置输出 */
+  encodingProfile: {
+    id: string
+    label: string
+    container: OutputContainer
   }
+  /** 渲染质量，见 `RenderQuality` */
+  quality: RenderQuality
+  /** 草稿转为正式渲染后对应的任务 ID */
+  promotedJobId: string | null
+  /** 由草稿转来的正式渲染任务对应的草稿任务 ID */
+  draftJobId: string | null
+  metrics: JobMetrics
+  /** 任务结束时的回调投递记录；未设置 callbackUrl 时为 null */
+  webhook: WebhookDelivery | null
+}
+
+/**
+ * 单个输出的渲染进度。
+ */
+export interface VariantProgressSnapshot {
+  videoIndex: number
+  videoName: string
+  variant: string
+  phase: VariantRenderPhase
+  /** 0-100 的整数 */
+  progress: number
+  /** 已开始的渲染次数（含重试） */
+  attempts: number
+  /** 最近一次渲染失败的错误信息 */
+  lastError?: string
+}
+
+/**
+ * 任务的渲染指标；phase 在任务开始处理前为 null。
+ */
+export interface JobMetrics {
+  completedVariants: number
+  totalVariants: number
+  phase: BatchRenderPhase | null
+  variants: VariantProgressSnapshot[]
 }
 
 interface InternalJobRecord {
   id: string
   ownerId: string
+  priority: JobPriority
   status: JobStatus
   progress: number
   createdAt: number
@@ -75,13 +207,19 @@ interface InternalJobRecord {
   startedAt: number | null
   finishedAt: number | null
   message?: string
-  result?: { videos: GeneratedVideoResult[] }
+  result?: JobResult
   error?: string
-  metrics: {
-    completedVariants: number
-    totalVariants: number
-  }
+  metrics: JobMetrics
   payload: VideoProcessorPayload
+  /** 处理过程中因服务重启被中断的次数 */
+  interruptedRuns: number
+  webhook: WebhookDelivery | null
+  /** 拼接回调中成片绝对地址所用的站点地址 */
+  publicBaseUrl: string | null
+  /** 草稿成功结束后保留上传的素材，供转为正式渲染；转换或过期后为 false */
+  retainedInputs: boolean
+  promotedJobId: string | null
+  draftJobId: string | null
 }
 
 interface QueueState {
@@ -94,6 +232,12 @@ interface QueueState {
   consecutiveStalledJobs: number
   circuitBreakerOpenedAt: number | null
   workerGeneration: number
+  /** 当前处理中任务的取消控制器，取消时用于终止 FFmpeg 进程 */
+  activeAbortController: AbortController | null
+  /** 各用户最近一次有任务开始处理的时间，用于轮转调度 */
+  ownerLastServedAt: Map<string, number>
+  /** 是否已从本地任务日志恢复过队列 */
+  journalRecovered: boolean
 }
 
 const globalQueueStateKey = Symbol.for('__videoJobQueue')
@@ -111,6 +255,9 @@ const queueState: QueueState =
     consecutiveStalledJobs: 0,
     circuitBreakerOpenedAt: null,
     workerGeneration: 0,
+    activeAbortController: null,
+    ownerLastServedAt: new Map(),
+    journalRecovered: false,
   } satisfies QueueState)
 
 const jobStore = queueState.jobStore
@@ -137,6 +284,13 @@ function isWorkerGenerationCurrent(workerGeneration: number): boolean {
   return workerGeneration === queueState.workerGeneration
 }
 
+/**
+ * 判断任务是否已进入终态（完成、部分完成、失败或取消）。
+ */
+function isJobFinished(status: JobStatus): boolean {
+  return status === 'completed' || status === 'partial' || status === 'failed' || status === 'cancelled'
+}
+
 /**
  * 按照历史耗时推算卡死检测阈值。
  */
@@ -158,7 +312,8 @@ function resetCircuitBreaker(): void {
  */
 function openCircuitBreaker(reason: string): void {
   queueState.circuitBreakerOpenedAt = Date.now()
-  console.error(`[JobQueue] 触发熔断: ${reason}`)
+  incrementCounter('video_queue_circuit_breaker_opens_total')
+  logger.error(`[JobQueue] 触发熔断: ${reason}`)
 }
 
 /**
@@ -194,7 +349,7 @@ function invalidateActiveWorker(reason: string): void {
   queueState.queueWorkerActive = false
   queueState.currentlyProcessingJob = null
   activeWorkerPromise = null
-  console.warn(`[JobQueue] Worker 已失效: ${reason}`)
+  logger.warn(`[JobQueue] Worker 已失效: ${reason}`)
 }
 
 /**
@@ -226,14 +381,22 @@ async function failStalledJobIfNeeded(): Promise<boolean> {
   job.updatedAt = Date.now()
   job.finishedAt = job.updatedAt
   persistSnapshot(job)
+  journalJobRecord(job)
+  recordJobFinished(job)
+  dispatchJobWebhook(job)
   recordJobDuration(job)
 
-  await cleanupPayloadFiles(job.payload)
+  // 与取消任务相同，先终止仍在运行的 FFmpeg 进程，再删除它正在读取的素材；
+  // 开启调试包时由被终止的 worker 先打包输入再清理，这里删掉会得到空的调试包
+  queueState.activeAbortController?.abort()
+  if (!isDebugBundleEnabled()) {
+    await cleanupPayloadFiles(job.payload)
+  }
 
   queueState.currentlyProcessingJob = null
   queueState.consecutiveStalledJobs += 1
 
-  console.warn(`[JobQueue] ${timeoutMessage}`, { jobId: job.id, elapsedMs })
+  logJobEvent(job, 'warn', `${timeoutMessage}（已运行 ${Math.round(elapsedMs / 1000)} 秒）`)
 
   invalidateActiveWorker('卡死任务触发熔断')
 
@@ -245,12 +408,287 @@ async function failStalledJobIfNeeded(): Promise<boolean> {
 }
 
 /**
- * 将当前记录同步到持久化存储（忽略失败）。
+ * 将当前记录同步到持久化存储（忽略失败），并推送给 SSE 订阅者。
  *
  * @param record - 需要同步的任务记录
  */
 function persistSnapshot(record: InternalJobRecord): void {
-  void persistJobSnapshot(toPublicSnapshot(record))
+  const snapshot = toPublicSnapshot(record)
+  void persistJobSnapshot(snapshot)
+  publishJobSnapshot(snapshot)
+}
+
+/**
+ * 队列顺序变化后，向仍在排队的任务的订阅者推送新的排队位置与预计等待时间。
+ */
+function publishPendingSnapshots(): void {
+  // 调度顺序只计算一次，供本轮所有排队任务共用
+  let schedulingOrder: string[] | undefined
+  for (const jobId of pendingQueue) {
+    const job = jobStore.get(jobId)
+    if (job && hasJobSubscribers(jobId)) {
+      schedulingOrder ??= computeSchedulingOrder()
+      publishJobSnapshot(toPublicSnapshot(job, schedulingOrder))
+    }
+  }
+}
+
+/**
+ * 将回调内容中的下载链接（/api/output/...）转换为绝对地址，方便接收方直接下载。
+ */
+function resolveAbsoluteOutputUrls(result: JobResult | undefined, baseUrl: string | null): JobResult | undefined {
+  if (!result || !baseUrl) {
+    return result
+  }
+
+  const toAbsolute = (url: string | null) => (url ? new URL(url, baseUrl).toString() : url)
+  return {
+    ...result,
+    videos: result.videos.map((video) => ({
+      ...video,
+      url: new URL(video.url, baseUrl).toString(),
+      posterUrl: toAbsolute(video.posterUrl),
+      thumbnailUrl: toAbsolute(video.thumbnailUrl),
+    })),
+  }
+}
+
+/**
+ * 以任务的上下文记录一行日志，同时写入该任务的日志文件。
+ */
+function logJobEvent(job: InternalJobRecord, level: 'info' | 'warn' | 'error', message: string): void {
+  runWithLogContext({ jobId: job.id, ownerId: job.ownerId }, () => logger[level](`[JobQueue] ${message}`))
+}
+
+/**
+ * 记录任务进入终态：按最终状态计数，并在任务日志中写下结果。
+ */
+function recordJobFinished(job: InternalJobRecord): void {
+  incrementCounter('video_jobs_finished_total', { status: job.status })
+  logJobEvent(
+    job,
+    job.status === 'failed' ? 'error' : 'info',
+    `🏁 任务结束: ${job.status}${job.error ? `，${job.error}` : job.message ? `，${job.message}` : ''}`,
+  )
+}
+
+/**
+ * 任务结束后向 callbackUrl 投递最终快照；每个任务只投递一次，投递记录写回任务快照。
+ *
+ * @param job - 已进入终态的任务
+ */
+function dispatchJobWebhook(job: InternalJobRecord): void {
+  const webhook = job.webhook
+  if (!webhook || webhook.status !== 'pending' || !isJobFinished(job.status)) {
+    return
+  }
+
+  webhook.status = 'delivering'
+  const snapshot = toPublicSnapshot(job)
+  const payload = {
+    event: 'job.finished',
+    job: { ...snapshot, result: resolveAbsoluteOutputUrls(snapshot.result, job.publicBaseUrl), webhook: undefined },
+  }
+
+  void runWithLogContext({ jobId: job.id, ownerId: job.ownerId, phase: 'webhook' }, () =>
+    deliverWebhook(webhook.url, payload, job.id, (attempt) => {
+      webhook.attempts.push(attempt)
+      persistSnapshot(job)
+    }),
+  ).then((delivered) => {
+    webhook.status = delivered ? 'delivered' : 'failed'
+    persistSnapshot(job)
+    journalJobRecord(job)
+  })
+}
+
+/**
+ * 在任务状态变化时把完整记录写入本地任务日志（未启用时忽略），必要时压缩日志。
+ *
+ * @param record - 状态刚发生变化的任务记录
+ */
+function journalJobRecord(record: InternalJobRecord): void {
+  if (!isJobJournalEnabled()) {
+    return
+  }
+
+  appendJobJournal(record)
+  if (shouldCompactJobJournal()) {
+    rewriteJobJournal(listRetainedJobRecords())
+  }
+}
+
+/**
+ * 返回需要保留在任务日志中的记录：未结束的任务，以及保留期内已结束的任务。
+ */
+function listRetainedJobRecords(): InternalJobRecord[] {
+  const now = Date.now()
+  return Array.from(jobStore.values()).filter(
+    (job) => !isJobFinished(job.status) || job.finishedAt === null || now - job.finishedAt <= FINISHED_JOB_RETENTION_MS,
+  )
+}
+
+/**
+ * 判断任务依赖的上传临时文件是否仍然存在。
+ */
+function payloadFilesExist(payload: VideoProcessorPayload): boolean {
+  return collectPayloadFiles(payload).every((filePath) => fs.existsSync(filePath))
+}
+
+/**
+ * 服务启动时从本地任务日志恢复队列：
+ * - pending 任务按提交顺序重新入队
+ * - processing 任务视为被重启中断，重置进度后重新入队；多次中断或临时文件已丢失时标记为失败
+ * - 保留期内已结束的任务仅恢复快照，供前端继续查询结果
+ *
+ * 每个进程只执行一次；未设置 JOB_QUEUE_JOURNAL_PATH 时不做任何事。
+ */
+export function recoverJobQueue(): void {
+  if (queueState.journalRecovered || !isJobJournalEnabled()) {
+    return
+  }
+  queueState.journalRecovered = true
+
+  const now = Date.now()
+  const records = readJobJournal<InternalJobRecord>().sort((a, b) => a.createdAt - b.createdAt)
+  let requeuedJobs = 0
+
+  for (const record of records) {
+    if (jobStore.has(record.id)) {
+      continue
+    }
+
+    if (isJobFinished(record.status)) {
+      if (record.finishedAt !== null && now - record.finishedAt > FINISHED_JOB_RETENTION_MS) {
+        if (record.retainedInputs) {
+          void cleanupPayloadFiles(record.payload)
+        }
+        continue
+      }
+      jobStore.set(record.id, record)
+      // 重启前尚未投递完成的回调重新投递
+      if (record.webhook?.status === 'delivering') {
+        record.webhook.status = 'pending'
+      }
+      dispatchJobWebhook(record)
+      continue
+    }
+
+    const job: InternalJobRecord = {
+      ...record,
+      interruptedRuns: record.interruptedRuns ?? 0,
+      webhook: record.webhook ?? null,
+      publicBaseUrl: record.publicBaseUrl ?? null,
+      retainedInputs: false,
+      promotedJobId: record.promotedJobId ?? null,
+      draftJobId: record.draftJobId ?? null,
+    }
+    jobStore.set(job.id, job)
+    if (job.status === 'processing') {
+      job.interruptedRuns += 1
+    }
+
+    const failureReason =
+      job.interruptedRuns > MAX_INTERRUPTED_RUNS
+        ? `任务已因服务重启中断 ${job.interruptedRuns} 次，不再自动重试`
+        : !payloadFilesExist(job.payload)
+          ? '服务重启后上传的临时文件已丢失，请重新提交'
+          : !getEncodingProfile(job.payload.encodingProfileId ?? DEFAULT_ENCODING_PROFILE_ID)
+            ? `编码配置 ${job.payload.encodingProfileId} 已不存在，请重新选择后提交`
+            : null
+
+    job.updatedAt = now
+    if (failureReason) {
+      job.status = 'failed'
+      job.error = failureReason
+      job.message = '视频处理失败'
+      job.finishedAt = now
+      void cleanupPayloadFiles(job.payload)
+      recordJobFinished(job)
+      dispatchJobWebhook(job)
+    } else {
+      job.message = job.status === 'processing' ? '服务重启，任务已重新排队' : job.message
+      job.status = 'pending'
+      job.progress = 0
+      job.startedAt = null
+      job.metrics = { completedVariants: 0, totalVariants: 0, phase: null, variants: [] }
+      pendingQueue.push(job.id)
+      requeuedJobs += 1
+    }
+    persistSnapshot(job)
+  }
+
+  rewriteJobJournal(listRetainedJobRecords())
+  logger.info(`[JobQueue] 已从任务日志恢复 ${records.length} 个任务，其中 ${requeuedJobs} 个重新排队`)
+
+  void startQueueWorkerIfNeeded()
+}
+
+/**
+ * 按真实调度顺序排列排队中的任务：
+ * 1. urgent 任务整体排在 normal 任务之前
+ * 2. 同一优先级内按用户轮转：每轮每个用户取一个自己最早提交的任务，
+ *    最久未被服务的用户排在前面，从未被服务的用户按其最早排队任务的先后排列
+ *
+ * @returns 排队任务 ID，按即将被处理的先后排列
+ */
+function computeSchedulingOrder(): string[] {
+  const order: string[] = []
+
+  for (const priority of JOB_PRIORITY_ORDER) {
+    const queuesByOwner = new Map<string, string[]>()
+    for (const jobId of pendingQueue) {
+      const job = jobStore.get(jobId)
+      if (!job || job.priority !== priority) {
+        continue
+      }
+      const ownerQueue = queuesByOwner.get(job.ownerId)
+      if (ownerQueue) {
+        ownerQueue.push(jobId)
+      } else {
+        queuesByOwner.set(job.ownerId, [jobId])
+      }
+    }
+
+    const owners = Array.from(queuesByOwner.keys()).sort(
+      (a, b) => (queueState.ownerLastServedAt.get(a) ?? 0) - (queueState.ownerLastServedAt.get(b) ?? 0),
+    )
+    for (let round = 0, added = true; added; round += 1) {
+      added = false
+      for (const ownerId of owners) {
+        const jobId = queuesByOwner.get(ownerId)?.[round]
+        if (jobId) {
+          order.push(jobId)
+          added = true
+        }
+      }
+    }
+  }
+
+  return order
+}
+
+/**
+ * 按调度顺序取出下一个任务，并记录该用户被服务的时间。
+ */
+function takeNextScheduledJobId(): string | undefined {
+  const nextJobId = computeSchedulingOrder()[0] ?? pendingQueue[0]
+  if (!nextJobId) {
+    return undefined
+  }
+  pendingQueue.splice(pendingQueue.indexOf(nextJobId), 1)
+
+  const now = Date.now()
+  queueState.ownerLastServedAt.forEach((servedAt, ownerId) => {
+    if (now - servedAt > OWNER_FAIRNESS_WINDOW_MS) {
+      queueState.ownerLastServedAt.delete(ownerId)
+    }
+  })
+  const job = jobStore.get(nextJobId)
+  if (job) {
+    queueState.ownerLastServedAt.set(job.ownerId, now)
+  }
+  return nextJobId
 }
 
 /**
@@ -261,6 +699,14 @@ function persistSnapshot(record: InternalJobRecord): void {
  */
 interface EnqueueOptions {
   ownerId: string
+  /** 任务优先级，缺省为 normal */
+  priority?: JobPriority
+  /** 任务结束后接收签名回调的地址 */
+  callbackUrl?: string
+  /** 站点对外地址，用于把回调中的下载链接转换为绝对地址 */
+  publicBaseUrl?: string
+  /** 由草稿转为正式渲染时对应的草稿任务 ID */
+  draftJobId?: string
 }
 
 export function enqueueJob(payload: VideoProcessorPayload, options: EnqueueOptions): JobSnapshot {
@@ -269,10 +715,14 @@ export function enqueueJob(payload: VideoProcessorPayload, options: EnqueueOptio
     throw new Error('缺少任务所属用户标识')
   }
 
+  recoverJobQueue()
+  pruneExpiredJobs()
+
   const jobId = randomUUID()
   const jobRecord: InternalJobRecord = {
     id: jobId,
     ownerId,
+    priority: options.priority ?? 'normal',
     status: 'pending',
     progress: 0,
     createdAt: Date.now(),
@@ -282,16 +732,25 @@ export function enqueueJob(payload: VideoProcessorPayload, options: EnqueueOptio
     message: undefined,
     result: undefined,
     error: undefined,
-    metrics: { completedVariants: 0, totalVariants: 0 },
+    metrics: { completedVariants: 0, totalVariants: 0, phase: null, variants: [] },
     payload,
+    interruptedRuns: 0,
+    webhook: options.callbackUrl ? { url: options.callbackUrl, status: 'pending', attempts: [] } : null,
+    publicBaseUrl: options.publicBaseUrl ?? null,
+    retainedInputs: false,
+    promotedJobId: null,
+    draftJobId: options.draftJobId ?? null,
   }
 
   jobStore.set(jobId, jobRecord)
+  journalJobRecord(jobRecord)
+  logJobEvent(jobRecord, 'info', `📥 任务已入队（${jobRecord.priority === 'urgent' ? '加急' : '普通'}优先级）`)
   pendingQueue.push(jobId)
   void startQueueWorkerIfNeeded()
 
   const snapshot = toPublicSnapshot(jobRecord)
   persistSnapshot(jobRecord)
+  publishPendingSnapshots()
   return snapshot
 }
 
@@ -304,39 +763,244 @@ export function getJobSnapshot(jobId: string): JobSnapshot | undefined {
   return toPublicSnapshot(record)
 }
 
+/**
+ * 取消指定用户的任务：排队中的任务直接出队；处理中的任务会终止正在运行的 FFmpeg 进程，
+ * 由 worker 负责删除已生成的文件与临时文件。
+ *
+ * @param jobId - 任务 ID
+ * @param ownerId - 发起取消的用户标识，只能取消自己的任务
+ */
+export async function cancelJob(jobId: string, ownerId: string): Promise<CancelJobResult> {
+  const job = jobStore.get(jobId)
+  if (!job || job.ownerId !== ownerId) {
+    return { outcome: 'not_found' }
+  }
+  if (isJobFinished(job.status)) {
+    return { outcome: 'already_finished', snapshot: toPublicSnapshot(job) }
+  }
+
+  const wasPending = job.status === 'pending'
+  job.status = 'cancelled'
+  job.message = '任务已取消'
+  job.updatedAt = Date.now()
+  job.finishedAt = job.updatedAt
+  persistSnapshot(job)
+  journalJobRecord(job)
+  recordJobFinished(job)
+  dispatchJobWebhook(job)
+
+  if (wasPending) {
+    const indexInQueue = pendingQueue.indexOf(job.id)
+    if (indexInQueue >= 0) {
+      pendingQueue.splice(indexInQueue, 1)
+    }
+    publishPendingSnapshots()
+    await cleanupPayloadFiles(job.payload)
+  } else if (queueState.currentlyProcessingJob === job.id) {
+    queueState.activeAbortController?.abort()
+  }
+
+  logJobEvent(job, 'info', `任务已取消: ${job.id}（${wasPending ? '排队中' : '处理中'}）`)
+  return { outcome: 'cancelled', snapshot: toPublicSnapshot(job) }
+}
+
+/**
+ * 将成功完成（含部分完成）的草稿转为正式渲染：使用草稿保留的素材与完全相同的参数（模板、布局、
+ * 编码配置、封面、优先级、回调地址）创建一个新任务，只把渲染质量换成 final。
+ * 素材的所有权随之转移给新任务，由新任务结束时清理。
+ *
+ * @param jobId - 草稿任务 ID
+ * @param ownerId - 发起请求的用户标识，只能转换自己的草稿
+ */
+export function promoteDraftJob(jobId: string, ownerId: string): PromoteJobResult {
+  releaseExpiredDraftInputs()
+
+  const draft = jobStore.get(jobId)
+  if (!draft || draft.ownerId !== ownerId) {
+    return { outcome: 'not_found' }
+  }
+  if (draft.payload.quality?.tier !== 'draft') {
+    return { outcome: 'not_draft', snapshot: toPublicSnapshot(draft) }
+  }
+  if (draft.promotedJobId) {
+    return { outcome: 'already_promoted', snapshot: toPublicSnapshot(draft) }
+  }
+  if (draft.status !== 'completed' && draft.status !== 'partial') {
+    return { outcome: 'not_ready', snapshot: toPublicSnapshot(draft) }
+  }
+  if (!draft.retainedInputs || !payloadFilesExist(draft.payload)) {
+    return { outcome: 'inputs_expired', snapshot: toPublicSnapshot(draft) }
+  }
+
+  const finalSnapshot = enqueueJob(
+    { ...draft.payload, quality: { tier: 'final' } },
+    {
+      ownerId: draft.ownerId,
+      priority: draft.priority,
+      callbackUrl: draft.webhook?.url,
+      publicBaseUrl: draft.publicBaseUrl ?? undefined,
+      draftJobId: draft.id,
+    },
+  )
+
+  draft.retainedInputs = false
+  draft.promotedJobId = finalSnapshot.id
+  draft.updatedAt = Date.now()
+  persistSnapshot(draft)
+  journalJobRecord(draft)
+  logJobEvent(draft, 'info', `🎞️ 草稿已转为正式渲染: ${finalSnapshot.id}`)
+  return { outcome: 'promoted', snapshot: finalSnapshot }
+}
+
+/**
+ * 从内存中移除超过保留期的已结束任务（与本地任务日志的保留规则一致），避免长期运行时任务记录无限增长。
+ */
+function pruneExpiredJobs(): void {
+  releaseExpiredDraftInputs()
+
+  const now = Date.now()
+  for (const job of jobStore.values()) {
+    if (isJobFinished(job.status) && job.finishedAt !== null && now - job.finishedAt > FINISHED_JOB_RETENTION_MS) {
+      jobStore.delete(job.id)
+    }
+  }
+}
+
+/**
+ * 清理超过保留期、仍未转为正式渲染的草稿素材。
+ */
+function releaseExpiredDraftInputs(): void {
+  const now = Date.now()
+  for (const job of jobStore.values()) {
+    if (!job.retainedInputs || job.finishedAt === null || now - job.finishedAt <= DRAFT_INPUT_RETENTION_MS) {
+      continue
+    }
+    job.retainedInputs = false
+    journalJobRecord(job)
+    void cleanupPayloadFiles(job.payload)
+    logJobEvent(job, 'info', '🧹 草稿素材已超过保留期，已清理')
+  }
+}
+
+/**
+ * 用户任务列表的查询条件。
+ */
+export interface OwnerJobQuery {
+  /** 仅返回这些状态的任务；缺省返回全部 */
+  statuses?: JobStatus[]
+  sort?: 'createdAt' | 'updatedAt'
+  order?: 'asc' | 'desc'
+  offset?: number
+  limit?: number
+}
+
+/**
+ * 用户任务列表的一页结果。
+ */
+export interface OwnerJobPage {
+  jobs: JobSnapshot[]
+  /** 满足筛选条件的任务总数 */
+  total: number
+  offset: number
+  limit: number
+}
+
+/**
+ * 分页返回指定用户的任务（仅限本实例内存中的任务，含从任务日志恢复的记录）。
+ *
+ * @param ownerId - 用户匿名指纹
+ * @param query - 状态筛选、排序与分页参数，缺省按创建时间倒序返回前 20 条
+ */
+export function listOwnerJobSnapshots(ownerId: string, query: OwnerJobQuery = {}): OwnerJobPage {
+  pruneExpiredJobs()
+  const { statuses, sort = 'createdAt', order = 'desc', offset = 0, limit = 20 } = query
+  const direction = order === 'asc' ? 1 : -1
+
+  const matchedJobs = Array.from(jobStore.values())
+    .filter((job) => job.ownerId === ownerId && (!statuses || statuses.includes(job.status)))
+    .sort((a, b) => (a[sort] - b[sort]) * direction)
+  const schedulingOrder = computeSchedulingOrder()
+
+  return {
+    jobs: matchedJobs.slice(offset, offset + limit).map((job) => toPublicSnapshot(job, schedulingOrder)),
+    total: matchedJobs.length,
+    offset,
+    limit,
+  }
+}
+
+/**
+ * 判断任务是否由指定用户提交（仅限本实例内存中的任务）。
+ */
+export function isJobOwnedBy(jobId: string, ownerId: string): boolean {
+  const job = jobStore.get(jobId)
+  return Boolean(job && job.ownerId === ownerId)
+}
+
 /**
  * 返回队列中所有任务的快照，便于调试。
  */
 export function listJobSnapshots(): JobSnapshot[] {
-  return Array.from(jobStore.values()).map((job) => toPublicSnapshot(job))
+  const schedulingOrder = computeSchedulingOrder()
+  return Array.from(jobStore.values()).map((job) => toPublicSnapshot(job, schedulingOrder))
+}
+
+/**
+ * 查找快照中展示的编码配置；任务日志里的配置 id 已被移除时不抛错，
+ * 以原 id 作为名称、默认配置的封装格式兜底，避免单个旧任务拖垮整个列表。
+ *
+ * @param profileId - 任务提交时选择的编码配置 id
+ */
+function describeEncodingProfile(profileId?: string | null): JobSnapshot['encodingProfile'] {
+  const id = profileId ?? DEFAULT_ENCODING_PROFILE_ID
+  const profile = getEncodingProfile(id)
+  if (profile) {
+    return { id: profile.id, label: profile.label, container: profile.container }
+  }
+  return { id, label: id, container: requireEncodingProfile(DEFAULT_ENCODING_PROFILE_ID).container }
 }
 
-function toPublicSnapshot(record: InternalJobRecord): JobSnapshot {
+/**
+ * 生成对外快照。
+ *
+ * @param record - 任务记录
+ * @param schedulingOrder - 批量生成快照时预先计算的调度顺序，缺省时按需计算
+ */
+function toPublicSnapshot(record: InternalJobRecord, schedulingOrder?: string[]): JobSnapshot {
+  const encodingProfile = describeEncodingProfile(record.payload.encodingProfileId)
+  const queuePosition = computeLiveQueuePosition(record, schedulingOrder)
   return {
     id: record.id,
     status: record.status,
     progress: record.progress,
     createdAt: record.createdAt,
     updatedAt: record.updatedAt,
-    queuePosition: computeLiveQueuePosition(record),
-    estimatedWaitMs: computeEstimatedWaitMs(record),
+    finishedAt: record.finishedAt,
+    priority: record.priority,
+    queuePosition,
+    estimatedWaitMs: computeEstimatedWaitMs(record, queuePosition),
     averageJobDurationMs: queueState.averageDurationMs,
     message: record.message,
     result: record.result,
     error: record.error,
+    encodingProfile,
+    quality: record.payload.quality ?? DEFAULT_RENDER_QUALITY,
+    promotedJobId: record.promotedJobId ?? null,
+    draftJobId: record.draftJobId ?? null,
     metrics: record.metrics,
+    webhook: record.webhook ?? null,
   }
 }
 
-function computeLiveQueuePosition(record: InternalJobRecord): number {
-  if (record.status === 'completed' || record.status === 'failed') {
+function computeLiveQueuePosition(record: InternalJobRecord, schedulingOrder?: string[]): number {
+  if (isJobFinished(record.status)) {
     return 0
   }
   if (record.status === 'processing') {
     return 0
   }
 
-  const indexInQueue = pendingQueue.indexOf(record.id)
+  const indexInQueue = (schedulingOrder ?? computeSchedulingOrder()).indexOf(record.id)
   const jobsAheadInQueue = indexInQueue >= 0 ? indexInQueue : 0
   const processingPenalty = queueState.currentlyProcessingJob ? 1 : 0
   return jobsAheadInQueue + processingPenalty
@@ -351,7 +1015,7 @@ async function runQueueWorker(workerGeneration: number): Promise<void> {
         break
       }
 
-      const nextJobId = pendingQueue.shift()
+      const nextJobId = takeNextScheduledJobId()
       if (!nextJobId) {
         continue
       }
@@ -363,36 +1027,89 @@ async function runQueueWorker(workerGeneration: number): Promise<void> {
 
       queueState.currentlyProcessingJob = job.id
       job.status = 'processing'
-      job.progress = 5
+      job.progress = PROCESSING_BASE_PROGRESS
       job.updatedAt = Date.now()
       job.startedAt = Date.now()
       job.metrics.completedVariants = 0
       persistSnapshot(job)
-
+      journalJobRecord(job)
+      publishPendingSnapshots()
+      logJobEvent(job, 'info', `▶️ 开始处理任务（${job.payload.videos.length} 个视频）`)
+
+      let lastPersistedAt = 0
+      let lastPublishedAt = 0
+      const renderSpecs: RenderSpecRecord[] = []
+      const abortController = new AbortController()
+      queueState.activeAbortController = abortController
       try {
-        const result = await processVideoBatch(job.payload, {
-          onProgress: (completed, total) => {
-            job.metrics.completedVariants = completed
-            job.metrics.totalVariants = total
-            job.progress = Math.min(99, Math.round((completed / total) * 100))
-            job.updatedAt = Date.now()
-            persistSnapshot(job)
-          },
-        })
-
-        if (!isWorkerGenerationCurrent(workerGeneration) || job.status !== 'processing') {
+        const result = await runWithLogContext({ jobId: job.id, ownerId: job.ownerId }, () =>
+          processVideoBatch(job.payload, {
+            signal: abortController.signal,
+            onRenderSpec: isDebugBundleEnabled() ? (record) => renderSpecs.push(record) : undefined,
+            onProgress: (progress) => {
+              if (job.status !== 'processing') {
+                return
+              }
+              const milestoneReached =
+                progress.phase !== job.metrics.phase || progress.completedVariants !== job.metrics.completedVariants
+              job.metrics = {
+                completedVariants: progress.completedVariants,
+                totalVariants: progress.totalVariants,
+                phase: progress.phase,
+                variants: progress.variants.map((entry) => ({
+                  videoIndex: entry.videoIndex,
+                  videoName: entry.videoName,
+                  variant: entry.variant,
+                  phase: entry.phase,
+                  progress: Math.round(entry.fraction * 100),
+                  attempts: entry.attempts,
+                  lastError: entry.lastError,
+                })),
+              }
+              const mappedProgress = Math.round(
+                PROCESSING_BASE_PROGRESS + progress.fraction * (99 - PROCESSING_BASE_PROGRESS),
+              )
+              job.progress = Math.min(99, Math.max(job.progress, mappedProgress))
+              job.updatedAt = Date.now()
+
+              if (milestoneReached || job.updatedAt - lastPersistedAt >= PROGRESS_PERSIST_INTERVAL_MS) {
+                lastPersistedAt = job.updatedAt
+                lastPublishedAt = job.updatedAt
+                persistSnapshot(job)
+              } else if (job.updatedAt - lastPublishedAt >= PROGRESS_PUBLISH_INTERVAL_MS) {
+                lastPublishedAt = job.updatedAt
+                publishJobSnapshot(toPublicSnapshot(job))
+              }
+            },
+          }),
+        )
+
+        if (!isWorkerGenerationCurrent(workerGeneration)) {
           break
         }
+        if (job.status !== 'processing') {
+          continue
+        }
 
-        job.status = 'completed'
-        job.progress = 100
-        job.result = { videos: result.videos }
-        job.message = result.message
+        job.result = { videos: result.videos, outputs: result.outputs }
+        if (result.videos.length === 0) {
+          const firstError = result.outputs.find((output) => output.status === 'failed')?.error
+          job.status = 'failed'
+          job.error = firstError ? `${result.message}：${firstError}` : result.message
+          job.message = '视频处理失败'
+        } else {
+          job.status = result.success ? 'completed' : 'partial'
+          job.progress = 100
+          job.message = result.message
+        }
         persistSnapshot(job)
       } catch (error) {
-        if (!isWorkerGenerationCurrent(workerGeneration) || job.status !== 'processing') {
+        if (!isWorkerGenerationCurrent(workerGeneration)) {
           break
         }
+        if (job.status !== 'processing') {
+          continue
+        }
 
         job.status = 'failed'
         job.error = error instanceof Error ? error.message : String(error)
@@ -400,15 +1117,46 @@ async function runQueueWorker(workerGeneration: number): Promise<void> {
         persistSnapshot(job)
       } finally {
         const jobAlreadyFinalized = job.finishedAt !== null
+        // 成功的草稿保留素材，供之后转为正式渲染
+        job.retainedInputs =
+          job.payload.quality?.tier === 'draft' && (job.status === 'completed' || job.status === 'partial')
 
         if (!jobAlreadyFinalized) {
           job.updatedAt = Date.now()
           job.finishedAt = Date.now()
           recordJobDuration(job)
+          journalJobRecord(job)
+          recordJobFinished(job)
+          dispatchJobWebhook(job)
         }
 
-        queueState.currentlyProcessingJob = null
-        await cleanupPayloadFiles(job.payload)
+        // 卡死后被终止的旧 worker 可能晚于新 worker 走到这里，不能清掉新任务的状态
+        if (queueState.currentlyProcessingJob === job.id) {
+          queueState.currentlyProcessingJob = null
+        }
+        if (queueState.activeAbortController === abortController) {
+          queueState.activeAbortController = null
+        }
+        if (job.retainedInputs) {
+          logJobEvent(job, 'info', '📝 草稿素材已保留，可转为正式渲染')
+        } else if (isDebugBundleEnabled() && (job.status === 'failed' || job.status === 'partial')) {
+          // 调试包会把输入文件移走，剩下的（例如不存在的路径）再照常清理
+          await runWithLogContext({ jobId: job.id, ownerId: job.ownerId, phase: 'debug-bundle' }, () =>
+            createDebugBundle({
+              jobId: job.id,
+              ownerId: job.ownerId,
+              status: job.status,
+              error: job.error,
+              message: job.message,
+              payload: job.payload,
+              outputs: job.result?.outputs ?? [],
+              renderSpecs,
+            }),
+          )
+        }
+        if (!job.retainedInputs) {
+          await cleanupPayloadFiles(job.payload)
+        }
 
         if (!jobAlreadyFinalized) {
           resetCircuitBreaker()
@@ -432,6 +1180,11 @@ function startQueueWorkerIfNeeded(): Promise<void> | undefined {
     return activeWorkerPromise
   }
 
+  // 启动钩子与路由可能各自加载一份本模块，共享的 queueState 表明已有 worker 在运行
+  if (queueState.queueWorkerActive) {
+    return undefined
+  }
+
   const workerGeneration = bumpWorkerGeneration()
   const workerPromise = runQueueWorker(workerGeneration)
 
@@ -450,34 +1203,56 @@ function startQueueWorkerIfNeeded(): Promise<void> | undefined {
  * 供 API 层调用：在唤醒 worker 前执行超时检测与熔断判定。
  */
 export async function ensureQueueWorkerRunning(): Promise<void> {
+  recoverJobQueue()
+
   const stalledJobCleared = await failStalledJobIfNeeded()
   if (stalledJobCleared) {
-    console.warn('[JobQueue] 检测到卡死任务，已自动标记失败并重置队列。')
+    logger.warn('[JobQueue] 检测到卡死任务，已自动标记失败并重置队列。')
   }
 
   if (isCircuitBreakerOpen()) {
     const remaining = getCircuitBreakerRemainingMs()
-    console.warn(`[JobQueue] 熔断生效，${remaining}ms 内不再重启 worker。`)
+    logger.warn(`[JobQueue] 熔断生效，${remaining}ms 内不再重启 worker。`)
     return
   }
 
   return startQueueWorkerIfNeeded() ?? Promise.resolve()
 }
 
-async function cleanupPayloadFiles(payload: VideoProcessorPayload): Promise<void> {
-  const filesToRemove = new Set<string>()
-  payload.videos.forEach((file) => filesToRemove.add(file.path))
-  if (payload.templates.vertical) filesToRemove.add(payload.templates.vertical.path)
-  if (payload.templates.square) filesToRemove.add(payload.templates.square.path)
-  if (payload.templates.landscape) filesToRemove.add(payload.templates.landscape.path)
+/**
+ * 列出任务依赖的全部上传临时文件（源视频、字幕、模板、背景图、片头片尾）。
+ */
+function collectPayloadFiles(payload: VideoProcessorPayload): string[] {
+  const payloadFiles = new Set<string>()
+  payload.videos.forEach((file) => {
+    payloadFiles.add(file.path)
+    if (file.subtitle) {
+      payloadFiles.add(file.subtitle.path)
+    }
+  })
+  Object.values(payload.templates).forEach((template) => {
+    if (!template) return
+    payloadFiles.add(template.path)
+    if (template.background?.mode === 'image') {
+      payloadFiles.add(template.background.path)
+    }
+    if (template.intro) payloadFiles.add(template.intro.path)
+    if (template.outro) payloadFiles.add(template.outro.path)
+  })
+  return Array.from(payloadFiles)
+}
 
-  for (const filePath of filesToRemove) {
+/**
+ * 删除任务依赖的上传临时文件；试运行请求不入队，也用它清理下载的素材。
+ */
+export async function cleanupPayloadFiles(payload: VideoProcessorPayload): Promise<void> {
+  for (const filePath of collectPayloadFiles(payload)) {
     try {
       if (fs.existsSync(filePath)) {
         await fs.promises.unlink(filePath)
       }
     } catch (error) {
-      console.warn(`⚠️  清理临时文件失败: ${filePath}`, error)
+      logger.warn(`⚠️  清理临时文件失败: ${filePath}`, { error })
     }
   }
 }
@@ -497,15 +1272,17 @@ function recordJobDuration(job: InternalJobRecord): void {
     queueState.recentDurations.shift()
   }
 
+  observeHistogram('video_job_duration_seconds', duration / 1000)
+
   const sum = queueState.recentDurations.reduce((acc, value) => acc + value, 0)
   const average = sum / queueState.recentDurations.length
   queueState.averageDurationMs = Math.max(Math.round(average), DEFAULT_JOB_DURATION_MS * 0.25)
 }
 
-function computeEstimatedWaitMs(record: InternalJobRecord): number {
+function computeEstimatedWaitMs(record: InternalJobRecord, queuePosition: number): number {
   const averageJobDurationMs = queueState.averageDurationMs || DEFAULT_JOB_DURATION_MS
 
-  if (record.status === 'completed' || record.status === 'failed') {
+  if (isJobFinished(record.status)) {
     return 0
   }
 
@@ -518,8 +1295,57 @@ function computeEstimatedWaitMs(record: InternalJobRecord): number {
     return Math.round(Math.max(remaining, 0))
   }
 
-  const queueSlotsAhead = computeLiveQueuePosition(record)
-  return Math.round(queueSlotsAhead * averageJobDurationMs)
+  return Math.round(queuePosition * averageJobDurationMs)
+}
+
+/**
+ * 队列内部状态的只读摘要，供监控指标接口采集。
+ */
+export interface QueueMetricsSnapshot {
+  /** 本实例内存中各状态的任务数（已结束任务保留 24 小时） */
+  jobsByStatus: Record<JobStatus, number>
+  /** 等待处理的任务数 */
+  queueDepth: number
+  workerActive: boolean
+  processingJobId: string | null
+  averageDurationMs: number
+  /** 最近若干个任务的耗时样本（毫秒） */
+  recentDurations: number[]
+  consecutiveStalledJobs: number
+  circuitBreakerOpen: boolean
+  circuitBreakerRemainingMs: number
+}
+
+/**
+ * 采集队列当前的内部状态。
+ */
+export function getQueueMetricsSnapshot(): QueueMetricsSnapshot {
+  pruneExpiredJobs()
+
+  const jobsByStatus: Record<JobStatus, number> = {
+    pending: 0,
+    processing: 0,
+    completed: 0,
+    partial: 0,
+    failed: 0,
+    cancelled: 0,
+  }
+  jobStore.forEach((job) => {
+    jobsByStatus[job.status] += 1
+  })
+
+  const circuitBreakerOpen = isCircuitBreakerOpen()
+  return {
+    jobsByStatus,
+    queueDepth: pendingQueue.length,
+    workerActive: queueState.queueWorkerActive,
+    processingJobId: queueState.currentlyProcessingJob,
+    averageDurationMs: queueState.averageDurationMs,
+    recentDurations: [...queueState.recentDurations],
+    consecutiveStalledJobs: queueState.consecutiveStalledJobs,
+    circuitBreakerOpen,
+    circuitBreakerRemainingMs: circuitBreakerOpen ? getCircuitBreakerRemainingMs() : 0,
+  }
 }
 
 /**
@@ -9,6 +9,7 @@ import { kv } from '@vercel/kv'
 import { BlobNotFoundError, del as deleteBlob, head as headBlob, put as putBlob } from '@vercel/blob'
 
 import type { JobSnapshot } from '@/lib/job-queue'
+import { logger } from '@/lib/logger'
 
 const JOB_KEY_PREFIX = 'video-job'
 const FALLBACK_TTL_SECONDS = 60 * 60 * 24 // 默认保存 24 小时
@@ -26,6 +27,15 @@ const blobToken =
 const blobReady = Boolean(blobToken)
 const SNAPSHOT_BLOB_PREFIX = (process.env.JOB_SNAPSHOT_BLOB_PREFIX ?? 'job-snapshots').replace(/^\/+/, '').replace(/\/+$/, '')
 
+/**
+ * 各任务最近一次排队的快照写入；同一任务的写入按顺序串行，避免旧快照晚于新快照落盘。
+ */
+const globalSnapshotWritesKey = Symbol.for('__videoJobSnapshotWrites')
+
+const pendingSnapshotWrites: Map<string, Promise<void>> =
+  ((globalThis as Record<PropertyKey, unknown>)[globalSnapshotWritesKey] as Map<string, Promise<void>> | undefined) ??
+  ((globalThis as Record<PropertyKey, unknown>)[globalSnapshotWritesKey] = new Map<string, Promise<void>>())
+
 /**
  * 拼接 KV 中使用的任务键。
  *
@@ -59,7 +69,7 @@ async function persistSnapshotInKv(snapshot: JobSnapshot): Promise<void> {
   try {
     await kv.set(buildJobKey(snapshot.id), snapshot, { ex: JOB_TTL_SECONDS })
   } catch (error) {
-    console.warn('⚠️ KV 写入失败，将依赖其他存储回退。', error)
+    logger.warn('⚠️ KV 写入失败，将依赖其他存储回退。', { error })
   }
 }
 
@@ -83,7 +93,7 @@ async function persistSnapshotInBlob(snapshot: JobSnapshot): Promise<void> {
       token: blobToken,
     })
   } catch (error) {
-    console.warn('⚠️ Blob 写入失败，将依赖其他存储回退。', error)
+    logger.warn('⚠️ Blob 写入失败，将依赖其他存储回退。', { error })
   }
 }
 
@@ -102,7 +112,7 @@ async function readSnapshotFromKv(jobId: string): Promise<JobSnapshot | undefine
     const snapshot = await kv.get<JobSnapshot>(buildJobKey(jobId))
     return snapshot ?? undefined
   } catch (error) {
-    console.warn('⚠️ KV 读取失败，尝试使用其他存储回退。', error)
+    logger.warn('⚠️ KV 读取失败，尝试使用其他存储回退。', { error })
     return undefined
   }
 }
@@ -122,7 +132,7 @@ async function readSnapshotFromBlob(jobId: string): Promise<JobSnapshot | undefi
     const metadata = await headBlob(buildBlobPath(jobId), { token: blobToken })
     const response = await fetch(metadata.downloadUrl, { cache: 'no-store' })
     if (!response.ok) {
-      console.warn(`⚠️ Blob 读取失败，HTTP ${response.status} ${response.statusText}`)
+      logger.warn(`⚠️ Blob 读取失败，HTTP ${response.status} ${response.statusText}`)
       return undefined
     }
     const snapshot = (await response.json()) as JobSnapshot
@@ -131,7 +141,7 @@ async function readSnapshotFromBlob(jobId: string): Promise<JobSnapshot | undefi
     if (error instanceof BlobNotFoundError) {
       return undefined
     }
-    console.warn('⚠️ Blob 读取失败，返回 undefined。', error)
+    logger.warn('⚠️ Blob 读取失败，返回 undefined。', { error })
     return undefined
   }
 }
@@ -149,7 +159,7 @@ async function deleteSnapshotFromKv(jobId: string): Promise<void> {
   try {
     await kv.del(buildJobKey(jobId))
   } catch (error) {
-    console.warn('⚠️ KV 删除失败，将等待 TTL 自动过期。', error)
+    logger.warn('⚠️ KV 删除失败，将等待 TTL 自动过期。', { error })
   }
 }
 
@@ -166,17 +176,16 @@ async function deleteSnapshotFromBlob(jobId: string): Promise<void> {
   try {
     await deleteBlob(buildBlobPath(jobId), { token: blobToken })
   } catch (error) {
-    console.warn('⚠️ Blob 删除失败，需要后续人工清理。', error)
+    logger.warn('⚠️ Blob 删除失败，需要后续人工清理。', { error })
   }
 }
 
 /**
- * 将最新的任务快照写入 KV。
+ * 同时写入 KV 与 Blob，任一失败都不会中断另一方。
  *
  * @param snapshot - 当前任务状态
- * @returns Promise<void>
  */
-export async function persistJobSnapshot(snapshot: JobSnapshot): Promise<void> {
+async function writeSnapshot(snapshot: JobSnapshot): Promise<void> {
   const tasks: Array<Promise<void>> = []
 
   tasks.push(persistSnapshotInKv(snapshot))
@@ -185,6 +194,24 @@ export async function persistJobSnapshot(snapshot: JobSnapshot): Promise<void> {
   await Promise.allSettled(tasks)
 }
 
+/**
+ * 将最新的任务快照写入 KV；同一任务的写入排队执行，保证最后落盘的是最新快照。
+ *
+ * @param snapshot - 当前任务状态
+ * @returns Promise<void>
+ */
+export function persistJobSnapshot(snapshot: JobSnapshot): Promise<void> {
+  const previous = pendingSnapshotWrites.get(snapshot.id) ?? Promise.resolve()
+  const write = previous.then(() => writeSnapshot(snapshot))
+  pendingSnapshotWrites.set(snapshot.id, write)
+  void write.finally(() => {
+    if (pendingSnapshotWrites.get(snapshot.id) === write) {
+      pendingSnapshotWrites.delete(snapshot.id)
+    }
+  })
+  return write
+}
+
 /**
  * 从 KV 读取指定任务的快照。
  *
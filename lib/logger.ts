@@ -0,0 +1,160 @@
+/**
+ * 结构化日志
+ *
+ * 每行日志自动带上当前上下文中的 jobId、ownerId、variant（输出尺寸）与 phase（阶段）：
+ * 队列 worker 与渲染流程通过 runWithLogContext 设置上下文，之后同一异步调用链中的日志无需手动传参。
+ *
+ * 输出格式：
+ * - 生产环境（NODE_ENV=production）默认每行一个 JSON 对象，便于日志平台检索
+ * - 其他环境保留原来的 emoji 文本，前面加上上下文标签
+ * - 可通过 LOG_FORMAT=json / pretty 强制指定，LOG_LEVEL=debug / info / warn / error 控制控制台输出级别
+ *
+ * 带 jobId 的日志（包括 FFmpeg 的 stderr）还会写入该任务的独立日志文件，见 `lib/job-logs.ts`。
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks'
+
+import { appendJobLogLine } from '@/lib/job-logs'
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+/**
+ * 日志上下文，未知的字段留空即可。
+ */
+export interface LogContext {
+  jobId?: string
+  ownerId?: string
+  /** 输出尺寸 id，例如 square */
+  variant?: string
+  /** 当前阶段，例如 download / probe / rendering / poster */
+  phase?: string
+}
+
+export type LogFields = Record<string, unknown>
+
+const LOG_LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 }
+
+const LOG_FORMAT: 'json' | 'pretty' =
+  process.env.LOG_FORMAT === 'json' || process.env.LOG_FORMAT === 'pretty'
+    ? process.env.LOG_FORMAT
+    : process.env.NODE_ENV === 'production'
+      ? 'json'
+      : 'pretty'
+
+const configuredLevel = process.env.LOG_LEVEL?.trim().toLowerCase()
+const MIN_CONSOLE_LEVEL: LogLevel =
+  configuredLevel && configuredLevel in LOG_LEVEL_ORDER ? (configuredLevel as LogLevel) : 'info'
+
+const globalLogContextKey = Symbol.for('__videoLogContext')
+
+const logContextStorage: AsyncLocalStorage<LogContext> =
+  ((globalThis as Record<PropertyKey, unknown>)[globalLogContextKey] as AsyncLocalStorage<LogContext> | undefined) ??
+  ((globalThis as Record<PropertyKey, unknown>)[globalLogContextKey] = new AsyncLocalStorage<LogContext>())
+
+/**
+ * 在指定上下文中执行函数，新上下文与外层上下文合并。
+ *
+ * @param context - 需要补充或覆盖的字段
+ * @param fn - 要执行的函数，其中（含异步回调）产生的日志都会带上上下文
+ */
+export function runWithLogContext<T>(context: LogContext, fn: () => T): T {
+  return logContextStorage.run({ ...logContextStorage.getStore(), ...context }, fn)
+}
+
+/**
+ * 返回当前的日志上下文。
+ */
+export function getLogContext(): LogContext {
+  return logContextStorage.getStore() ?? {}
+}
+
+/**
+ * 将 Error 等无法直接序列化的值转换为普通对象。
+ */
+function normalizeFields(fields: LogFields): LogFields {
+  const normalized: LogFields = {}
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined) continue
+    normalized[key] =
+      value instanceof Error ? { name: value.name, message: value.message, stack: value.stack } : value
+  }
+  return normalized
+}
+
+/**
+ * 文本格式的上下文标签，例如 `[job=1a2b3c4d variant=square phase=rendering]`。
+ */
+function formatContextTags(context: LogContext): string {
+  const tags = [
+    context.jobId ? `job=${context.jobId.slice(0, 8)}` : null,
+    context.ownerId ? `owner=${context.ownerId.slice(0, 8)}` : null,
+    context.variant ? `variant=${context.variant}` : null,
+    context.phase ? `phase=${context.phase}` : null,
+  ].filter(Boolean)
+  return tags.length > 0 ? `[${tags.join(' ')}] ` : ''
+}
+
+function formatFieldsSuffix(fields: LogFields): string {
+  return Object.keys(fields).length > 0 ? ` ${JSON.stringify(fields)}` : ''
+}
+
+/**
+ * 写入任务运行日志文件的一行：时间、级别、上下文、消息与附加字段。
+ */
+function formatJobLogLine(time: string, level: string, context: LogContext, message: string, fields: LogFields): string {
+  // 文件本身就属于该任务，标签中不再重复 jobId
+  const tags = formatContextTags({ ...context, jobId: undefined })
+  return `${time} ${level.toUpperCase().padEnd(6)} ${tags}${message.trim()}${formatFieldsSuffix(fields)}`
+}
+
+function writeLog(level: LogLevel, message: string, fields: LogFields = {}): void {
+  const context = getLogContext()
+  const normalizedFields = normalizeFields(fields)
+  const time = new Date().toISOString()
+
+  if (context.jobId) {
+    appendJobLogLine(context.jobId, formatJobLogLine(time, level, context, message, normalizedFields))
+  }
+
+  if (LOG_LEVEL_ORDER[level] < LOG_LEVEL_ORDER[MIN_CONSOLE_LEVEL]) {
+    return
+  }
+
+  const write = level === 'debug' ? console.debug : console[level]
+  if (LOG_FORMAT === 'json') {
+    write(JSON.stringify({ time, level, msg: message.trim(), ...context, ...normalizedFields }))
+    return
+  }
+
+  // 保留消息开头的空行，标签放在正文前
+  const [, leadingBreaks, body] = /^(\n*)([\s\S]*)$/.exec(message) ?? ['', '', message]
+  const line = `${leadingBreaks}${formatContextTags(context)}${body}`
+  if (Object.keys(normalizedFields).length > 0) {
+    write(line, normalizedFields)
+  } else {
+    write(line)
+  }
+}
+
+/**
+ * 全局日志对象，用法与 console 类似，附加字段以对象形式传入：
+ * `logger.warn('⚠️  封面生成失败', { error })`
+ */
+export const logger = {
+  debug: (message: string, fields?: LogFields) => writeLog('debug', message, fields),
+  info: (message: string, fields?: LogFields) => writeLog('info', message, fields),
+  warn: (message: string, fields?: LogFields) => writeLog('warn', message, fields),
+  error: (message: string, fields?: LogFields) => writeLog('error', message, fields),
+}
+
+/**
+ * 记录 FFmpeg 的一行 stderr：只写入当前任务的日志文件，不输出到控制台。
+ */
+export function recordFfmpegOutput(line: string): void {
+  const context = getLogContext()
+  if (!context.jobId || !line.trim()) {
+    return
+  }
+  const tags = formatContextTags({ ...context, jobId: undefined })
+  appendJobLogLine(context.jobId, `${new Date().toISOString()} FFMPEG ${tags}${line.trimEnd()}`)
+}
@@ -0,0 +1,203 @@
+/**
+ * 进程内监控指标
+ *
+ * 记录计数器与直方图，并按 Prometheus 文本格式（0.0.4）输出，供 GET /api/metrics 抓取。
+ * 队列深度等瞬时值由调用方在抓取时以 gauge 形式传入，无需在这里常驻。
+ * 指标存放在 globalThis 上，保证启动钩子、各路由加载的模块副本写入同一份数据。
+ */
+
+type MetricLabels = Record<string, string>
+
+/**
+ * 计数器定义：名称 → 说明。
+ */
+const COUNTER_DEFINITIONS = {
+  video_jobs_finished_total: '进入终态的任务数，按最终状态区分',
+  video_render_ffmpeg_failures_total: '单次 FFmpeg 渲染失败次数（含随后重试成功的尝试），按尺寸与是否可重试区分',
+  video_remote_download_bytes_total: '从远程地址下载的素材字节数',
+  video_queue_circuit_breaker_opens_total: '队列熔断打开次数',
+} as const
+
+/**
+ * 直方图定义：名称 → 说明与桶边界（秒）。
+ */
+const HISTOGRAM_DEFINITIONS = {
+  video_render_variant_duration_seconds: {
+    help: '单个输出（源视频 × 尺寸）从开始渲染到成功或最终失败的耗时，含重试等待',
+    buckets: [5, 15, 30, 60, 120, 300, 600, 1200],
+  },
+  video_job_duration_seconds: {
+    help: '任务从开始处理到结束的耗时',
+    buckets: [10, 30, 60, 120, 300, 600, 1200, 2400],
+  },
+} as const
+
+export type CounterName = keyof typeof COUNTER_DEFINITIONS
+export type HistogramName = keyof typeof HISTOGRAM_DEFINITIONS
+
+/**
+ * 抓取时由调用方提供的瞬时值。
+ */
+export interface GaugeMetric {
+  name: string
+  help: string
+  samples: Array<{ labels?: MetricLabels; value: number }>
+}
+
+interface CounterSeries {
+  labels: MetricLabels
+  value: number
+}
+
+interface HistogramSeries {
+  labels: MetricLabels
+  /** 与桶边界一一对应的非累计计数 */
+  bucketCounts: number[]
+  sum: number
+  count: number
+}
+
+interface MetricsState {
+  counters: Map<CounterName, Map<string, CounterSeries>>
+  histograms: Map<HistogramName, Map<string, HistogramSeries>>
+}
+
+const globalMetricsKey = Symbol.for('__videoMetrics')
+
+const metricsState: MetricsState =
+  ((globalThis as Record<PropertyKey, unknown>)[globalMetricsKey] as MetricsState | undefined) ??
+  ((globalThis as Record<PropertyKey, unknown>)[globalMetricsKey] = {
+    counters: new Map(),
+    histograms: new Map(),
+  } satisfies MetricsState)
+
+/**
+ * 以排序后的标签生成序列键，保证同一组标签落到同一条序列。
+ */
+function buildSeriesKey(labels: MetricLabels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)))
+}
+
+/**
+ * 增加计数器。
+ *
+ * @param name - 计数器名称
+ * @param labels - 标签，例如 `{ status: 'completed' }`
+ * @param value - 增量，默认为 1
+ */
+export function incrementCounter(name: CounterName, labels: MetricLabels = {}, value = 1): void {
+  if (!Number.isFinite(value) || value <= 0) {
+    return
+  }
+
+  let series = metricsState.counters.get(name)
+  if (!series) {
+    series = new Map()
+    metricsState.counters.set(name, series)
+  }
+
+  const key = buildSeriesKey(labels)
+  const entry = series.get(key)
+  if (entry) {
+    entry.value += value
+  } else {
+    series.set(key, { labels: { ...labels }, value })
+  }
+}
+
+/**
+ * 向直方图记录一次观测值。
+ *
+ * @param name - 直方图名称
+ * @param value - 观测值（秒）
+ * @param labels - 标签
+ */
+export function observeHistogram(name: HistogramName, value: number, labels: MetricLabels = {}): void {
+  if (!Number.isFinite(value) || value < 0) {
+    return
+  }
+
+  const { buckets } = HISTOGRAM_DEFINITIONS[name]
+  let series = metricsState.histograms.get(name)
+  if (!series) {
+    series = new Map()
+    metricsState.histograms.set(name, series)
+  }
+
+  const key = buildSeriesKey(labels)
+  let entry = series.get(key)
+  if (!entry) {
+    entry = { labels: { ...labels }, bucketCounts: buckets.map(() => 0), sum: 0, count: 0 }
+    series.set(key, entry)
+  }
+
+  const bucketIndex = buckets.findIndex((upperBound) => value <= upperBound)
+  if (bucketIndex >= 0) {
+    entry.bucketCounts[bucketIndex] += 1
+  }
+  entry.sum += value
+  entry.count += 1
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels)
+  if (entries.length === 0) {
+    return ''
+  }
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`
+}
+
+function formatValue(value: number): string {
+  if (value === Number.POSITIVE_INFINITY) return '+Inf'
+  if (value === Number.NEGATIVE_INFINITY) return '-Inf'
+  return Number.isNaN(value) ? 'NaN' : String(value)
+}
+
+function formatHeader(name: string, help: string, type: 'counter' | 'gauge' | 'histogram'): string[] {
+  return [`# HELP ${name} ${help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`, `# TYPE ${name} ${type}`]
+}
+
+/**
+ * 输出全部指标的 Prometheus 文本。
+ *
+ * @param gauges - 抓取时采集的瞬时值
+ * @returns 以换行结尾的指标文本
+ */
+export function renderPrometheusMetrics(gauges: GaugeMetric[] = []): string {
+  const lines: string[] = []
+
+  for (const gauge of gauges) {
+    lines.push(...formatHeader(gauge.name, gauge.help, 'gauge'))
+    for (const sample of gauge.samples) {
+      lines.push(`${gauge.name}${formatLabels(sample.labels ?? {})} ${formatValue(sample.value)}`)
+    }
+  }
+
+  for (const name of Object.keys(COUNTER_DEFINITIONS) as CounterName[]) {
+    lines.push(...formatHeader(name, COUNTER_DEFINITIONS[name], 'counter'))
+    for (const series of metricsState.counters.get(name)?.values() ?? []) {
+      lines.push(`${name}${formatLabels(series.labels)} ${formatValue(series.value)}`)
+    }
+  }
+
+  for (const name of Object.keys(HISTOGRAM_DEFINITIONS) as HistogramName[]) {
+    const { help, buckets } = HISTOGRAM_DEFINITIONS[name]
+    lines.push(...formatHeader(name, help, 'histogram'))
+    for (const series of metricsState.histograms.get(name)?.values() ?? []) {
+      let cumulative = 0
+      buckets.forEach((upperBound, index) => {
+        cumulative += series.bucketCounts[index]
+        lines.push(`${name}_bucket${formatLabels({ ...series.labels, le: String(upperBound) })} ${cumulative}`)
+      })
+      lines.push(`${name}_bucket${formatLabels({ ...series.labels, le: '+Inf' })} ${series.count}`)
+      lines.push(`${name}_sum${formatLabels(series.labels)} ${formatValue(series.sum)}`)
+      lines.push(`${name}_count${formatLabels(series.labels)} ${series.count}`)
+    }
+  }
+
+  return `${lines.join('\n')}\n`
+}
@@ -0,0 +1,146 @@
+/**
+ * 输出尺寸注册表
+ *
+ * 负责：
+ * 1. 以“id + 名称 + 画布尺寸 + 默认布局”的形式声明每一种输出尺寸
+ * 2. 为渲染流程、/api/process 与上传界面提供同一份尺寸列表
+ * 3. 允许在启动时注册新的尺寸，而无需修改渲染代码
+ *
+ * 该模块不依赖任何 Node.js API，前端组件可以直接引用。
+ */
+
+import type { CanvasSize, TemplatePlacement } from '@/lib/template-layout'
+
+/**
+ * 输出尺寸的唯一标识，例如 `vertical`、`square`。
+ */
+export type OutputVariantId = string
+
+/**
+ * 一种输出尺寸的完整定义。
+ */
+export interface OutputVariantDefinition {
+  /** 唯一标识，同时作为输出文件名前缀 */
+  id: OutputVariantId
+  /** 简短名称，例如“竖版” */
+  label: string
+  /** 面向用户的格式说明，例如“9:16 竖屏格式” */
+  description: string
+  /** 输出画布大小（宽高需为偶数，以满足 yuv420p 编码） */
+  canvas: CanvasSize
+  /** 模板未指定放置规则、也未识别到透明窗口时使用的默认布局 */
+  defaultPlacement: TemplatePlacement
+}
+
+/**
+ * 生成“窗口覆盖整张画布”的默认布局。
+ */
+function fullCanvasPlacement(canvas: CanvasSize, anchor: TemplatePlacement['anchor'] = 'center'): TemplatePlacement {
+  return { x: 0, y: 0, width: canvas.width, height: canvas.height, fit: 'contain', anchor }
+}
+
+/**
+ * 内置尺寸，顺序即界面展示与渲染的顺序。
+ * 方版模板通常将透明窗口放在画面左侧，因此默认左对齐，保证画面不会“漂移”。
+ */
+const BUILT_IN_VARIANTS: OutputVariantDefinition[] = [
+  {
+    id: 'vertical',
+    label: '竖版',
+    description: '9:16 竖屏格式',
+    canvas: { width: 1080, height: 1920 },
+    defaultPlacement: fullCanvasPlacement({ width: 1080, height: 1920 }),
+  },
+  {
+    id: 'square',
+    label: '方版',
+    description: '1:1 方形格式',
+    canvas: { width: 1080, height: 1080 },
+    defaultPlacement: fullCanvasPlacement({ width: 1080, height: 1080 }, 'left'),
+  },
+  {
+    id: 'landscape',
+    label: '横版',
+    description: '16:9 横屏格式',
+    canvas: { width: 1920, height: 1080 },
+    defaultPlacement: fullCanvasPlacement({ width: 1920, height: 1080 }),
+  },
+  {
+    id: 'portrait',
+    label: '信息流版',
+    description: '4:5 Instagram 信息流格式',
+    canvas: { width: 1080, height: 1350 },
+    defaultPlacement: fullCanvasPlacement({ width: 1080, height: 1350 }),
+  },
+  {
+    id: 'pinterest',
+    label: 'Pinterest 版',
+    description: '2:3 Pinterest 竖图格式',
+    canvas: { width: 1000, height: 1500 },
+    defaultPlacement: fullCanvasPlacement({ width: 1000, height: 1500 }),
+  },
+  {
+    id: 'banner',
+    label: '横幅版',
+    description: '21:9 超宽横幅格式',
+    canvas: { width: 2520, height: 1080 },
+    defaultPlacement: fullCanvasPlacement({ width: 2520, height: 1080 }),
+  },
+]
+
+const variantRegistry = new Map<OutputVariantId, OutputVariantDefinition>(
+  BUILT_IN_VARIANTS.map((definition) => [definition.id, definition]),
+)
+
+/**
+ * 注册一种新的输出尺寸。
+ *
+ * @param definition - 尺寸定义
+ * @throws 当 id 重复、画布尺寸非法或默认布局超出画布时抛出错误
+ */
+export function registerOutputVariant(definition: OutputVariantDefinition): void {
+  const id = definition.id.trim()
+  if (!/^[a-z0-9][a-z0-9-]*$/.test(id)) {
+    throw new Error(`输出尺寸 id 只能包含小写字母、数字与连字符: ${definition.id}`)
+  }
+  if (variantRegistry.has(id)) {
+    throw new Error(`输出尺寸 ${id} 已存在`)
+  }
+
+  const { width, height } = definition.canvas
+  if (width <= 0 || height <= 0 || width % 2 !== 0 || height % 2 !== 0) {
+    throw new Error(`输出尺寸 ${id} 的画布必须是正偶数宽高，当前为 ${width}x${height}`)
+  }
+
+  const placement = definition.defaultPlacement
+  if (placement.x < 0 || placement.y < 0 || placement.x + placement.width > width || placement.y + placement.height > height) {
+    throw new Error(`输出尺寸 ${id} 的默认布局超出了画布范围`)
+  }
+
+  variantRegistry.set(id, { ...definition, id })
+}
+
+/**
+ * 按注册顺序返回所有输出尺寸。
+ */
+export function listOutputVariants(): OutputVariantDefinition[] {
+  return Array.from(variantRegistry.values())
+}
+
+/**
+ * 根据 id 查找输出尺寸；不存在时返回 undefined。
+ */
+export function getOutputVariant(id: OutputVariantId): OutputVariantDefinition | undefined {
+  return variantRegistry.get(id)
+}
+
+/**
+ * 根据 id 查找输出尺寸；不存在时抛出错误，供渲染流程使用。
+ */
+export function requireOutputVariant(id: OutputVariantId): OutputVariantDefinition {
+  const definition = variantRegistry.get(id)
+  if (!definition) {
+    throw new Error(`未注册的输出尺寸: ${id}`)
+  }
+  return definition
+}
@@ -0,0 +1,100 @@
+/**
+ * 最近任务的本地记录（浏览器 localStorage）
+ *
+ * 首页刷新或关闭后 React 状态会丢失，这里记下最近提交的任务 ID 与最后已知状态，
+ * 重新打开页面时据此恢复订阅或展示已完成任务的下载入口。
+ * 仅在浏览器端调用；服务端渲染或存储不可用时所有读写都会静默降级为空操作。
+ */
+
+import type { JobStatus } from '@/components/job-status-badge'
+
+export interface RecentJobEntry {
+  id: string
+  /** 提交时间（毫秒时间戳） */
+  createdAt: number
+  /** 最后一次从服务端得到的状态 */
+  status: JobStatus
+}
+
+const RECENT_JOBS_STORAGE_KEY = 'video-template:recent-jobs'
+const MAX_RECENT_JOBS = 10
+/** 与服务端已结束任务的保留时长一致，超过后任务快照已被清理，没有恢复的意义 */
+const RECENT_JOB_TTL_MS = 24 * 60 * 60 * 1000
+
+function isRecentJobEntry(value: unknown): value is RecentJobEntry {
+  if (!value || typeof value !== 'object') return false
+  const entry = value as Partial<RecentJobEntry>
+  return typeof entry.id === 'string' && typeof entry.createdAt === 'number' && typeof entry.status === 'string'
+}
+
+function writeRecentJobs(entries: RecentJobEntry[]): void {
+  try {
+    window.localStorage.setItem(RECENT_JOBS_STORAGE_KEY, JSON.stringify(entries))
+  } catch (error) {
+    console.warn('保存最近任务失败:', error)
+  }
+}
+
+/**
+ * 读取最近任务，按提交时间倒序，自动剔除过期与格式不正确的记录。
+ */
+export function loadRecentJobs(): RecentJobEntry[] {
+  if (typeof window === 'undefined') return []
+
+  try {
+    const raw = window.localStorage.getItem(RECENT_JOBS_STORAGE_KEY)
+    if (!raw) return []
+    const parsed: unknown = JSON.parse(raw)
+    if (!Array.isArray(parsed)) return []
+
+    const cutoff = Date.now() - RECENT_JOB_TTL_MS
+    return parsed
+      .filter(isRecentJobEntry)
+      .filter((entry) => entry.createdAt >= cutoff)
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .slice(0, MAX_RECENT_JOBS)
+  } catch (error) {
+    console.warn('读取最近任务失败:', error)
+    return []
+  }
+}
+
+/**
+ * 记录新提交的任务，超出上限时丢弃最旧的记录。
+ */
+export function rememberRecentJob(id: string, status: JobStatus): RecentJobEntry[] {
+  if (typeof window === 'undefined') return []
+
+  const entries = [
+    { id, createdAt: Date.now(), status },
+    ...loadRecentJobs().filter((entry) => entry.id !== id),
+  ].slice(0, MAX_RECENT_JOBS)
+  writeRecentJobs(entries)
+  return entries
+}
+
+/**
+ * 更新已记录任务的状态；未记录的任务保持不变。
+ */
+export function updateRecentJobStatus(id: string, status: JobStatus): RecentJobEntry[] {
+  if (typeof window === 'undefined') return []
+
+  const entries = loadRecentJobs()
+  const target = entries.find((entry) => entry.id === id)
+  if (!target || target.status === status) return entries
+
+  target.status = status
+  writeRecentJobs(entries)
+  return entries
+}
+
+/**
+ * 删除一条记录（例如服务端已找不到该任务）。
+ */
+export function forgetRecentJob(id: string): RecentJobEntry[] {
+  if (typeof window === 'undefined') return []
+
+  const entries = loadRecentJobs().filter((entry) => entry.id !== id)
+  writeRecentJobs(entries)
+  return entries
+}
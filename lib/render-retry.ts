@@ -0,0 +1,87 @@
+/**
+ * 渲染重试策略
+ *
+ * 负责：
+ * 1. 读取重试次数与退避间隔配置（可通过环境变量调整）
+ * 2. 区分可重试的临时故障（进程被系统杀死、磁盘已满、内存不足等）与不可重试的输入错误
+ * 3. 按指数退避计算下一次重试前的等待时间
+ */
+
+/**
+ * 单个输出渲染的重试策略。
+ */
+export interface RenderRetryPolicy {
+  /** 最多尝试次数（含第一次），1 表示不重试 */
+  maxAttempts: number
+  /** 第一次重试前的等待时间（毫秒），之后每次翻倍 */
+  baseDelayMs: number
+  /** 单次等待时间上限（毫秒） */
+  maxDelayMs: number
+}
+
+const FALLBACK_MAX_ATTEMPTS = 3
+const FALLBACK_BASE_DELAY_MS = 2000
+const FALLBACK_MAX_DELAY_MS = 30 * 1000
+const MAX_ATTEMPTS_LIMIT = 10
+
+/**
+ * 读取正整数环境变量，非法值回退为默认值。
+ */
+function readPositiveIntegerEnv(name: string, fallback: number, limit = Number.MAX_SAFE_INTEGER): number {
+  const parsed = Number(process.env[name])
+  return Number.isFinite(parsed) && parsed >= 1 ? Math.min(Math.round(parsed), limit) : fallback
+}
+
+/**
+ * 默认重试策略，可通过 RENDER_RETRY_MAX_ATTEMPTS / RENDER_RETRY_BASE_DELAY_MS / RENDER_RETRY_MAX_DELAY_MS 调整。
+ */
+export const DEFAULT_RENDER_RETRY_POLICY: RenderRetryPolicy = {
+  maxAttempts: readPositiveIntegerEnv('RENDER_RETRY_MAX_ATTEMPTS', FALLBACK_MAX_ATTEMPTS, MAX_ATTEMPTS_LIMIT),
+  baseDelayMs: readPositiveIntegerEnv('RENDER_RETRY_BASE_DELAY_MS', FALLBACK_BASE_DELAY_MS),
+  maxDelayMs: readPositiveIntegerEnv('RENDER_RETRY_MAX_DELAY_MS', FALLBACK_MAX_DELAY_MS),
+}
+
+/**
+ * 可重试的系统错误码：磁盘已满、内存不足、文件句柄耗尽、资源暂时不可用。
+ */
+const RETRYABLE_ERROR_CODES = new Set(['ENOSPC', 'ENOMEM', 'EMFILE', 'ENFILE', 'EAGAIN', 'EBUSY'])
+
+/**
+ * FFmpeg 报错信息中代表临时故障的片段。
+ * SIGKILL / 退出码 137 通常意味着进程被 OOM killer 结束。
+ */
+const RETRYABLE_MESSAGE_PATTERNS = [
+  /killed with signal SIGKILL/i,
+  /exited with code 137/i,
+  /No space left on device/i,
+  /Cannot allocate memory/i,
+  /Resource temporarily unavailable/i,
+  /Too many open files/i,
+  /Device or resource busy/i,
+]
+
+/**
+ * 判断渲染错误是否值得重试。
+ * 未识别的错误（例如源文件损坏、参数不合法）一律视为不可重试，避免重复失败浪费时间。
+ *
+ * @param error - FFmpeg 或文件系统抛出的错误
+ */
+export function isRetryableRenderError(error: unknown): boolean {
+  const code = (error as NodeJS.ErrnoException | null)?.code
+  if (typeof code === 'string' && RETRYABLE_ERROR_CODES.has(code)) {
+    return true
+  }
+
+  const message = error instanceof Error ? error.message : String(error)
+  return RETRYABLE_MESSAGE_PATTERNS.some((pattern) => pattern.test(message))
+}
+
+/**
+ * 计算第 attempt 次尝试失败后的等待时间：baseDelayMs * 2^(attempt - 1)，不超过 maxDelayMs。
+ *
+ * @param attempt - 刚刚失败的尝试序号（从 1 开始）
+ * @param policy - 重试策略
+ */
+export function computeRetryDelayMs(attempt: number, policy: RenderRetryPolicy = DEFAULT_RENDER_RETRY_POLICY): number {
+  return Math.min(policy.baseDelayMs * 2 ** Math.max(attempt - 1, 0), policy.maxDelayMs)
+}
@@ -0,0 +1,222 @@
+/**
+ * 字幕烧录（硬字幕）工具
+ *
+ * 负责：
+ * 1. 识别 SRT / ASS / VTT 字幕文件，并校验前端传入的字幕样式
+ * 2. 按输出尺寸与源视频窗口计算字幕位置，生成 libass `subtitles` 滤镜
+ *
+ * 样式中的字号、描边与边距均以输出画布像素为单位，
+ * 生成滤镜时会换算为字幕脚本自身的坐标系（PlayResX / PlayResY）。
+ */
+
+import fs from 'fs'
+import path from 'path'
+
+import { logger } from '@/lib/logger'
+import type { OutputVariantId } from '@/lib/output-variants'
+import type { CanvasSize, TemplatePlacement } from '@/lib/template-layout'
+
+/**
+ * 支持的字幕格式，与文件扩展名一致。
+ */
+export type SubtitleFormat = 'srt' | 'ass' | 'vtt'
+
+/**
+ * 字幕样式，所有尺寸字段的单位均为输出画布像素。
+ */
+export interface SubtitleStyle {
+  /** 字体名称，需在渲染机器上可用 */
+  fontName?: string
+  /** 字号；缺省时按源视频窗口高度的 4.5% 计算 */
+  fontSize?: number
+  /** 描边宽度 */
+  outline?: number
+  /** 每种输出尺寸的字幕底边距（距离源视频窗口底部）；缺省为窗口高度的 8% */
+  marginV?: Partial<Record<OutputVariantId, number>>
+}
+
+/**
+ * 附加在源视频上的字幕文件。
+ */
+export interface SubtitleDescriptor {
+  path: string
+  originalName: string
+  format: SubtitleFormat
+  style?: SubtitleStyle
+}
+
+/**
+ * 字幕脚本的坐标系大小。SRT / VTT 会被 FFmpeg 转换为 384x288 的 ASS 脚本。
+ */
+interface ScriptResolution {
+  width: number
+  height: number
+}
+
+const SUBTITLE_FORMATS: SubtitleFormat[] = ['srt', 'ass', 'vtt']
+const DEFAULT_SCRIPT_RESOLUTION: ScriptResolution = { width: 384, height: 288 }
+const DEFAULT_FONT_NAME = 'Arial'
+const DEFAULT_FONT_SIZE_RATIO = 0.045
+const DEFAULT_MARGIN_RATIO = 0.08
+const DEFAULT_OUTLINE = 3
+const MAX_STYLE_PIXELS = 1000
+const SCRIPT_HEADER_BYTES = 8 * 1024
+/**
+ * 额外的字体目录；渲染机器没有安装所需字体（例如中文字体）时可通过环境变量指定。
+ */
+const SUBTITLE_FONTS_DIR = process.env.SUBTITLE_FONTS_DIR?.trim()
+
+/**
+ * 根据文件名识别字幕格式（`.ssa` 视为 ASS）；不支持时返回 null。
+ */
+export function resolveSubtitleFormat(filename: string): SubtitleFormat | null {
+  const extension = path.extname(filename).slice(1).toLowerCase()
+  if (extension === 'ssa') {
+    return 'ass'
+  }
+  return SUBTITLE_FORMATS.includes(extension as SubtitleFormat) ? (extension as SubtitleFormat) : null
+}
+
+/**
+ * 校验单个像素字段，允许缺省。
+ */
+function normalizePixelField(value: unknown, field: string, allowZero: boolean): number | undefined {
+  if (value === undefined || value === null) {
+    return undefined
+  }
+
+  const parsed = Number(value)
+  const lowerBound = allowZero ? 0 : 1
+  if (!Number.isFinite(parsed) || parsed < lowerBound || parsed > MAX_STYLE_PIXELS) {
+    throw new Error(`subtitle.style.${field} 必须在 ${lowerBound}-${MAX_STYLE_PIXELS} 之间`)
+  }
+  return Math.round(parsed)
+}
+
+/**
+ * 校验前端传入的字幕样式。
+ *
+ * @param raw - 接口传入的样式对象，可为空
+ * @returns 经过校验的样式；未提供时返回 undefined
+ */
+export function normalizeSubtitleStyle(raw: unknown): SubtitleStyle | undefined {
+  if (raw === undefined || raw === null) {
+    return undefined
+  }
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('subtitle.style 必须是对象')
+  }
+
+  const input = raw as Record<string, unknown>
+  const style: SubtitleStyle = {}
+
+  if (input.fontName !== undefined && input.fontName !== null) {
+    // force_style 以逗号分隔、以等号赋值，字体名中不能出现这些分隔符
+    if (typeof input.fontName !== 'string' || !input.fontName.trim() || /[,=:;'"\\[\]]/.test(input.fontName)) {
+      throw new Error('subtitle.style.fontName 不能为空，且不能包含 , = : ; 引号或方括号')
+    }
+    style.fontName = input.fontName.trim()
+  }
+
+  style.fontSize = normalizePixelField(input.fontSize, 'fontSize', false)
+  style.outline = normalizePixelField(input.outline, 'outline', true)
+
+  if (input.marginV !== undefined && input.marginV !== null) {
+    if (typeof input.marginV !== 'object' || Array.isArray(input.marginV)) {
+      throw new Error('subtitle.style.marginV 必须是以输出尺寸 id 为键的对象')
+    }
+    style.marginV = {}
+    for (const [variant, value] of Object.entries(input.marginV as Record<string, unknown>)) {
+      style.marginV[variant] = normalizePixelField(value, `marginV.${variant}`, true)
+    }
+  }
+
+  return style
+}
+
+/**
+ * 读取 ASS 脚本头部声明的 PlayResX / PlayResY；SRT / VTT 使用 FFmpeg 转换时的默认值。
+ */
+function readScriptResolution(subtitle: SubtitleDescriptor): ScriptResolution {
+  if (subtitle.format !== 'ass') {
+    return DEFAULT_SCRIPT_RESOLUTION
+  }
+
+  let header = ''
+  try {
+    const fd = fs.openSync(subtitle.path, 'r')
+    try {
+      const buffer = Buffer.alloc(SCRIPT_HEADER_BYTES)
+      const bytesRead = fs.readSync(fd, buffer, 0, SCRIPT_HEADER_BYTES, 0)
+      header = buffer.subarray(0, bytesRead).toString('utf8')
+    } finally {
+      fs.closeSync(fd)
+    }
+  } catch (error) {
+    logger.warn(`⚠️  无法读取字幕脚本头部: ${subtitle.path}`, { error })
+    return DEFAULT_SCRIPT_RESOLUTION
+  }
+
+  const width = Number(/^PlayResX:\s*(\d+)/im.exec(header)?.[1])
+  const height = Number(/^PlayResY:\s*(\d+)/im.exec(header)?.[1])
+  return {
+    width: width > 0 ? width : DEFAULT_SCRIPT_RESOLUTION.width,
+    height: height > 0 ? height : DEFAULT_SCRIPT_RESOLUTION.height,
+  }
+}
+
+/**
+ * 转义滤镜参数值：先处理参数层的 `\ ' :`，再处理滤镜图层的 `\ ' [ ] , ;`。
+ */
+function escapeFilterGraphValue(value: string): string {
+  const optionEscaped = value.replace(/[\\':]/g, '\\$&')
+  return optionEscaped.replace(/[\\'[\],;]/g, '\\$&')
+}
+
+/**
+ * 生成在指定尺寸上烧录字幕的滤镜。
+ * 字幕底部居中对齐，并被限制在源视频窗口的水平范围内，避免压到模板的装饰区域。
+ *
+ * @param inputLabel - 合成画面的标签
+ * @param outputLabel - 烧录字幕后的画面标签
+ * @param subtitle - 字幕文件与样式
+ * @param variant - 输出尺寸 id，用于查找该尺寸的底边距
+ * @param placement - 源视频窗口
+ * @param canvas - 输出画布大小
+ */
+export function buildSubtitleFilter(
+  inputLabel: string,
+  outputLabel: string,
+  subtitle: SubtitleDescriptor,
+  variant: OutputVariantId,
+  placement: TemplatePlacement,
+  canvas: CanvasSize,
+): string {
+  const style = subtitle.style ?? {}
+  const script = readScriptResolution(subtitle)
+  const scaleX = script.width / canvas.width
+  const scaleY = script.height / canvas.height
+
+  const fontSize = style.fontSize ?? placement.height * DEFAULT_FONT_SIZE_RATIO
+  const marginFromWindow = style.marginV?.[variant] ?? placement.height * DEFAULT_MARGIN_RATIO
+  const marginV = canvas.height - (placement.y + placement.height) + marginFromWindow
+  const marginL = placement.x
+  const marginR = canvas.width - (placement.x + placement.width)
+
+  const forceStyle = [
+    `FontName=${style.fontName ?? DEFAULT_FONT_NAME}`,
+    `FontSize=${Math.max(1, Math.round(fontSize * scaleY))}`,
+    `Outline=${((style.outline ?? DEFAULT_OUTLINE) * scaleY).toFixed(2)}`,
+    'BorderStyle=1',
+    'Alignment=2',
+    `MarginV=${Math.round(marginV * scaleY)}`,
+    `MarginL=${Math.round(marginL * scaleX)}`,
+    `MarginR=${Math.round(marginR * scaleX)}`,
+  ].join(',')
+
+  const options = [`filename=${escapeFilterGraphValue(subtitle.path)}`, `force_style='${forceStyle}'`]
+  if (SUBTITLE_FONTS_DIR) {
+    options.push(`fontsdir=${escapeFilterGraphValue(SUBTITLE_FONTS_DIR)}`)
+  }
+  return `[${inputLabel}]subtitles=${options.join(':')}[${outputLabel}]`
+}
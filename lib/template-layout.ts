@@ -0,0 +1,422 @@
+/**
+ * 模板布局（放置规则）模块
+ *
+ * 负责：
+ * 1. 描述源视频在模板画布中的“窗口”位置（x/y/宽/高）、填充方式与锚点
+ * 2. 将模板中自动识别出的透明窗口换算为画布上的放置规则
+ * 3. 校验前端/接口传入的放置参数，并将其转换为 FFmpeg 滤镜片段
+ * 4. 描述窗口内留白区域的底图填充方式（纯色、模糊、渐变、图片）
+ *
+ * 各输出尺寸的画布大小与默认布局见 `lib/output-variants.ts`。
+ */
+
+/**
+ * 源视频放入窗口时的缩放方式：
+ * - contain：完整显示，留白部分用底色填充
+ * - cover：铺满窗口，超出部分按锚点裁剪
+ * - stretch：直接拉伸到窗口尺寸
+ */
+export type PlacementFitMode = 'contain' | 'cover' | 'stretch'
+
+/**
+ * 源视频在窗口内的对齐方式（contain 时决定留白位置，cover 时决定裁剪位置）。
+ */
+export type PlacementAnchor =
+  | 'center'
+  | 'top'
+  | 'bottom'
+  | 'left'
+  | 'right'
+  | 'top-left'
+  | 'top-right'
+  | 'bottom-left'
+  | 'bottom-right'
+
+/**
+ * 画布尺寸（像素）。
+ */
+export interface CanvasSize {
+  width: number
+  height: number
+}
+
+/**
+ * 以像素为单位的矩形区域。
+ */
+export interface PixelRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * 源视频窗口的放置规则，坐标与尺寸均以输出画布像素为单位。
+ */
+export interface TemplatePlacement {
+  x: number
+  y: number
+  width: number
+  height: number
+  fit: PlacementFitMode
+  anchor: PlacementAnchor
+}
+
+/**
+ * 源视频未铺满画布时，留白区域的填充方式：
+ * - color：纯色（默认黑色）
+ * - blur：放大并模糊后的源视频，常见的社交媒体效果
+ * - gradient：两种颜色之间的线性渐变
+ * - image：上传的背景图片
+ */
+export type BackgroundFill =
+  | { mode: 'color'; color: string }
+  | { mode: 'blur'; strength: number }
+  | { mode: 'gradient'; from: string; to: string; direction: GradientDirection }
+  | { mode: 'image'; path: string; originalName: string }
+
+/**
+ * 渐变方向：vertical 为从上到下，horizontal 为从左到右。
+ */
+export type GradientDirection = 'vertical' | 'horizontal'
+
+/**
+ * 未指定填充方式时使用黑色，与历史输出保持一致。
+ */
+export const DEFAULT_BACKGROUND_FILL: BackgroundFill = { mode: 'color', color: 'black' }
+
+const BLUR_STRENGTH_RANGE = { min: 1, max: 100, fallback: 20 }
+const GRADIENT_SAMPLE_SIZE = 64
+const FIT_MODES: PlacementFitMode[] = ['contain', 'cover', 'stretch']
+const ANCHORS: PlacementAnchor[] = [
+  'center',
+  'top',
+  'bottom',
+  'left',
+  'right',
+  'top-left',
+  'top-right',
+  'bottom-left',
+  'bottom-right',
+]
+
+/**
+ * 将模板原始分辨率下的透明窗口换算为画布上的放置规则。
+ * 模板会按 force_original_aspect_ratio=decrease 缩放后贴在画布左上角，因此只需等比换算；
+ * 透明窗口需要被画面完全填满，故使用 cover 居中裁剪。
+ *
+ * @param transparentWindow - 模板原始分辨率下的透明区域
+ * @param templateSize - 模板原始分辨率
+ * @param canvas - 输出画布大小
+ * @returns 换算后的放置规则；窗口无效时返回 null
+ */
+export function placementFromTransparentWindow(
+  transparentWindow: PixelRect,
+  templateSize: CanvasSize,
+  canvas: CanvasSize,
+): TemplatePlacement | null {
+  if (templateSize.width <= 0 || templateSize.height <= 0) {
+    return null
+  }
+
+  const scale = Math.min(canvas.width / templateSize.width, canvas.height / templateSize.height)
+  const x = Math.min(Math.max(Math.round(transparentWindow.x * scale), 0), canvas.width - 1)
+  const y = Math.min(Math.max(Math.round(transparentWindow.y * scale), 0), canvas.height - 1)
+  const width = Math.min(Math.round(transparentWindow.width * scale), canvas.width - x)
+  const height = Math.min(Math.round(transparentWindow.height * scale), canvas.height - y)
+
+  if (width <= 0 || height <= 0) {
+    return null
+  }
+
+  return { x, y, width, height, fit: 'cover', anchor: 'center' }
+}
+
+/**
+ * 将未知输入解析为整数像素值。
+ */
+function toPixelValue(value: unknown, field: string): number {
+  const parsed = typeof value === 'number' ? value : Number(value)
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`placement.${field} 必须是数字`)
+  }
+  return Math.round(parsed)
+}
+
+/**
+ * 校验并补全放置规则：缺省字段回退到“整张画布 + contain + 居中”。
+ *
+ * @param raw - 接口传入的放置参数
+ * @param canvas - 对应输出尺寸的画布大小
+ * @returns 经过校验的放置规则
+ */
+export function normalizeTemplatePlacement(raw: unknown, canvas: CanvasSize): TemplatePlacement {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('placement 必须是对象')
+  }
+
+  const input = raw as Record<string, unknown>
+  const x = input.x === undefined ? 0 : toPixelValue(input.x, 'x')
+  const y = input.y === undefined ? 0 : toPixelValue(input.y, 'y')
+  const width = input.width === undefined ? canvas.width - x : toPixelValue(input.width, 'width')
+  const height = input.height === undefined ? canvas.height - y : toPixelValue(input.height, 'height')
+
+  if (x < 0 || y < 0) {
+    throw new Error('placement 的 x / y 不能为负数')
+  }
+  if (width <= 0 || height <= 0) {
+    throw new Error('placement 的 width / height 必须大于 0')
+  }
+  if (x + width > canvas.width || y + height > canvas.height) {
+    throw new Error(`placement 窗口超出了 ${canvas.width}x${canvas.height} 的画布范围`)
+  }
+
+  const fit = input.fit === undefined ? 'contain' : input.fit
+  if (!FIT_MODES.includes(fit as PlacementFitMode)) {
+    throw new Error(`placement.fit 仅支持 ${FIT_MODES.join(' / ')}`)
+  }
+
+  const anchor = input.anchor === undefined ? 'center' : input.anchor
+  if (!ANCHORS.includes(anchor as PlacementAnchor)) {
+    throw new Error(`placement.anchor 仅支持 ${ANCHORS.join(' / ')}`)
+  }
+
+  return {
+    x,
+    y,
+    width,
+    height,
+    fit: fit as PlacementFitMode,
+    anchor: anchor as PlacementAnchor,
+  }
+}
+
+/**
+ * 将十六进制颜色解析为 RGB 分量，支持 `#RRGGBB` 与 `RRGGBB`。
+ */
+function parseHexColor(value: unknown, field: string): { r: number; g: number; b: number } {
+  const match = typeof value === 'string' ? /^#?([0-9a-f]{6})$/i.exec(value.trim()) : null
+  if (!match) {
+    throw new Error(`background.${field} 必须是 #RRGGBB 格式的颜色`)
+  }
+  const hex = match[1]
+  return {
+    r: parseInt(hex.slice(0, 2), 16),
+    g: parseInt(hex.slice(2, 4), 16),
+    b: parseInt(hex.slice(4, 6), 16),
+  }
+}
+
+/**
+ * 将颜色转换为 FFmpeg 可识别的写法：十六进制转为 0xRRGGBB[AA]，颜色名原样保留。
+ */
+function normalizeFfmpegColor(value: unknown): string {
+  if (typeof value !== 'string') {
+    throw new Error('background.color 必须是字符串')
+  }
+  const trimmed = value.trim()
+  const hexMatch = /^#?([0-9a-f]{6}(?:[0-9a-f]{2})?)$/i.exec(trimmed)
+  if (hexMatch) {
+    return `0x${hexMatch[1].toUpperCase()}`
+  }
+  if (/^[a-z]+$/i.test(trimmed)) {
+    return trimmed.toLowerCase()
+  }
+  throw new Error('background.color 仅支持 #RRGGBB、#RRGGBBAA 或颜色名称（如 black）')
+}
+
+/**
+ * 校验留白区域的填充方式。
+ * 图片模式需要已经落盘的 path / originalName，接口层会先下载图片再调用本方法。
+ *
+ * @param raw - 接口传入的填充参数
+ * @returns 经过校验的填充方式
+ */
+export function normalizeBackgroundFill(raw: unknown): BackgroundFill {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('background 必须是对象')
+  }
+
+  const input = raw as Record<string, unknown>
+  switch (input.mode) {
+    case 'color':
+      return { mode: 'color', color: normalizeFfmpegColor(input.color ?? 'black') }
+    case 'blur': {
+      const strength = input.strength === undefined ? BLUR_STRENGTH_RANGE.fallback : Number(input.strength)
+      if (!Number.isFinite(strength) || strength < BLUR_STRENGTH_RANGE.min || strength > BLUR_STRENGTH_RANGE.max) {
+        throw new Error(`background.strength 必须在 ${BLUR_STRENGTH_RANGE.min}-${BLUR_STRENGTH_RANGE.max} 之间`)
+      }
+      return { mode: 'blur', strength: Math.round(strength) }
+    }
+    case 'gradient': {
+      parseHexColor(input.from, 'from')
+      parseHexColor(input.to, 'to')
+      const direction = input.direction ?? 'vertical'
+      if (direction !== 'vertical' && direction !== 'horizontal') {
+        throw new Error('background.direction 仅支持 vertical / horizontal')
+      }
+      return { mode: 'gradient', from: String(input.from).trim(), to: String(input.to).trim(), direction }
+    }
+    case 'image':
+      if (typeof input.path !== 'string' || typeof input.originalName !== 'string') {
+        throw new Error('background 图片模式缺少已下载的文件路径')
+      }
+      return { mode: 'image', path: input.path, originalName: input.originalName }
+    default:
+      throw new Error('background.mode 仅支持 color / blur / gradient / image')
+  }
+}
+
+/**
+ * 返回锚点在水平/垂直方向上的比例（0 = 左/上，0.5 = 居中，1 = 右/下）。
+ */
+function resolveAnchorFactors(anchor: PlacementAnchor): { horizontal: number; vertical: number } {
+  const horizontal = anchor.includes('left') ? 0 : anchor.includes('right') ? 1 : 0.5
+  const vertical = anchor.includes('top') ? 0 : anchor.includes('bottom') ? 1 : 0.5
+  return { horizontal, vertical }
+}
+
+/**
+ * 生成“起点 + 剩余空间 * 比例”形式的滤镜表达式。
+ */
+function buildOffsetExpression(origin: number, slack: string, factor: number): string {
+  const prefix = origin === 0 ? '' : `${origin}+`
+  if (factor === 0) return `${origin}`
+  if (factor === 1) return `${prefix}${slack}`
+  return `${prefix}(${slack})/2`
+}
+
+/**
+ * 生成把源视频缩放/裁剪到窗口尺寸的滤镜链（不含输入输出标签）。
+ */
+function buildFitChain(placement: TemplatePlacement): string {
+  const { width, height, fit, anchor } = placement
+
+  if (fit === 'contain') {
+    return `scale=${width}:${height}:force_original_aspect_ratio=decrease:flags=lanczos,setsar=1`
+  }
+
+  if (fit === 'cover') {
+    const factors = resolveAnchorFactors(anchor)
+    const cropX = buildOffsetExpression(0, `iw-${width}`, factors.horizontal)
+    const cropY = buildOffsetExpression(0, `ih-${height}`, factors.vertical)
+    return `scale=${width}:${height}:force_original_aspect_ratio=increase:flags=lanczos,crop=${width}:${height}:${cropX}:${cropY},setsar=1`
+  }
+
+  return `scale=${width}:${height}:flags=lanczos,setsar=1`
+}
+
+/**
+ * 计算窗口内画面左上角的位置表达式；contain 时按锚点分配留白。
+ *
+ * @param placement - 放置规则
+ * @param widthVariable - 表达式中代表画面宽度的变量（pad 为 iw，overlay 为 w）
+ * @param heightVariable - 表达式中代表画面高度的变量（pad 为 ih，overlay 为 h）
+ */
+function buildWindowOffsets(
+  placement: TemplatePlacement,
+  widthVariable: string,
+  heightVariable: string,
+): { x: string; y: string } {
+  if (placement.fit !== 'contain') {
+    return { x: `${placement.x}`, y: `${placement.y}` }
+  }
+
+  const factors = resolveAnchorFactors(placement.anchor)
+  return {
+    x: buildOffsetExpression(placement.x, `${placement.width}-${widthVariable}`, factors.horizontal),
+    y: buildOffsetExpression(placement.y, `${placement.height}-${heightVariable}`, factors.vertical),
+  }
+}
+
+/**
+ * 生成整张画布大小的底图滤镜。
+ *
+ * @param sourceLabel - 底图来源：模糊/渐变模式为源视频副本，图片模式为背景图输入
+ * @param outputLabel - 底图标签
+ * @param background - 非纯色的填充方式
+ * @param canvas - 输出画布大小
+ */
+function buildBackgroundFilter(
+  sourceLabel: string,
+  outputLabel: string,
+  background: Exclude<BackgroundFill, { mode: 'color' }>,
+  canvas: CanvasSize,
+): string {
+  const coverCanvas = `scale=${canvas.width}:${canvas.height}:force_original_aspect_ratio=increase,crop=${canvas.width}:${canvas.height},setsar=1`
+
+  if (background.mode === 'blur') {
+    return `[${sourceLabel}]${coverCanvas},boxblur=${background.strength}:2[${outputLabel}]`
+  }
+
+  if (background.mode === 'image') {
+    return `[${sourceLabel}]${coverCanvas},format=rgba,loop=-1:1:0[${outputLabel}]`
+  }
+
+  // 渐变只在小尺寸上逐像素计算，再平滑放大到画布，避免每帧对整张画布执行 geq。
+  const from = parseHexColor(background.from, 'from')
+  const to = parseHexColor(background.to, 'to')
+  const position = background.direction === 'vertical' ? 'Y/(H-1)' : 'X/(W-1)'
+  const channel = (start: number, end: number) => `'${start}+(${end - start})*${position}'`
+  return [
+    `[${sourceLabel}]scale=${GRADIENT_SAMPLE_SIZE}:${GRADIENT_SAMPLE_SIZE},format=rgb24`,
+    `geq=r=${channel(from.r, to.r)}:g=${channel(from.g, to.g)}:b=${channel(from.b, to.b)}`,
+    `scale=${canvas.width}:${canvas.height}:flags=bicubic,setsar=1[${outputLabel}]`,
+  ].join(',')
+}
+
+/**
+ * 根据放置规则生成源视频图层的滤镜链：缩放到窗口内，再铺到整张画布上，
+ * 留白区域按填充方式处理。
+ *
+ * @param inputLabel - 源视频输入标签，例如 `1:v`
+ * @param outputLabel - 生成的视频图层标签
+ * @param placement - 放置规则
+ * @param canvas - 输出画布大小
+ * @param background - 留白区域的填充方式，缺省为黑色
+ * @param backgroundImageLabel - 图片填充时背景图的输入标签
+ * @returns 可直接交给 complexFilter 的滤镜片段
+ */
+export function buildVideoLayerFilters(
+  inputLabel: string,
+  outputLabel: string,
+  placement: TemplatePlacement,
+  canvas: CanvasSize,
+  background: BackgroundFill = DEFAULT_BACKGROUND_FILL,
+  backgroundImageLabel?: string,
+): string[] {
+  const scaledLabel = `${outputLabel}_scaled`
+  const fitChain = buildFitChain(placement)
+
+  if (background.mode === 'color') {
+    const offsets = buildWindowOffsets(placement, 'iw', 'ih')
+    return [
+      `[${inputLabel}]${fitChain}[${scaledLabel}]`,
+      `[${scaledLabel}]pad=${canvas.width}:${canvas.height}:${offsets.x}:${offsets.y}:color=${background.color},format=rgba[${outputLabel}]`,
+    ]
+  }
+
+  if (background.mode === 'image' && !backgroundImageLabel) {
+    throw new Error('图片填充缺少背景图输入')
+  }
+
+  const backgroundLabel = `${outputLabel}_background`
+  const offsets = buildWindowOffsets(placement, 'w', 'h')
+  const filters: string[] = []
+  let foregroundLabel = inputLabel
+  let backgroundSourceLabel = backgroundImageLabel ?? ''
+
+  if (background.mode !== 'image') {
+    foregroundLabel = `${outputLabel}_foreground_source`
+    backgroundSourceLabel = `${outputLabel}_background_source`
+    filters.push(`[${inputLabel}]split=2[${foregroundLabel}][${backgroundSourceLabel}]`)
+  }
+
+  filters.push(`[${foregroundLabel}]${fitChain}[${scaledLabel}]`)
+  filters.push(buildBackgroundFilter(backgroundSourceLabel, backgroundLabel, background, canvas))
+  // 底图在图片模式下会无限循环，因此以源视频结束作为图层结束。
+  filters.push(
+    `[${backgroundLabel}][${scaledLabel}]overlay=${offsets.x}:${offsets.y}:shortest=1,format=rgba[${outputLabel}]`,
+  )
+  return filters
+}
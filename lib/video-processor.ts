@@ -3,24 +3,129 @@
  *
  * 负责：
  * 1. 配置 FFmpeg 运行环境
- * 2. 提供模板元数据读取能力（识别 Alpha 通道、分辨率等）
- * 3. 输出竖版、方版、横版三种尺寸的视频
+ * 2. 提供模板元数据读取能力（识别 Alpha 通道、分辨率、透明窗口等）
+ * 3. 按模板的放置规则输出注册表中各尺寸（竖版、方版、横版等）的视频
  * 4. 聚合一个批次任务的执行入口，并在需要时上报处理进度
+ * 5. 提供只生成渲染计划、不做编码的试运行入口，以及单帧合成预览
  *
  * 所有导出的方法都遵循“单一职责+文档说明”的结构，方便非专业开发者理解。
  */
 
 import fs from 'fs'
 import path from 'path'
-import { spawnSync } from 'child_process'
+import { randomUUID } from 'crypto'
+import { spawn, spawnSync } from 'child_process'
 import ffmpegInstaller from '@ffmpeg-installer/ffmpeg'
 import ffmpeg from 'fluent-ffmpeg'
 import ffmpegStatic from 'ffmpeg-static'
 
+import {
+  buildEncodingOutputOptions,
+  DRAFT_ENCODING_PROFILE,
+  requireEncodingProfile,
+  type EncodingProfile,
+  type OutputContainer,
+} from '@/lib/encoding-profiles'
+import { logger, recordFfmpegOutput, runWithLogContext } from '@/lib/logger'
+import { incrementCounter, observeHistogram } from '@/lib/metrics'
+import { listOutputVariants, requireOutputVariant, type OutputVariantId } from '@/lib/output-variants'
+import {
+  computeRetryDelayMs,
+  DEFAULT_RENDER_RETRY_POLICY,
+  isRetryableRenderError,
+  type RenderRetryPolicy,
+} from '@/lib/render-retry'
+import { buildSubtitleFilter, type SubtitleDescriptor } from '@/lib/subtitles'
+import {
+  buildVideoLayerFilters,
+  placementFromTransparentWindow,
+  type BackgroundFill,
+  type CanvasSize,
+  type PixelRect,
+  type TemplatePlacement,
+} from '@/lib/template-layout'
+
+/**
+ * 模板对应的输出尺寸 id，取值见 `lib/output-variants.ts` 中的注册表。
+ */
+export type TemplateVariant = OutputVariantId
+
+/**
+ * 模板比源视频短时的时长策略：
+ * - loop：循环播放模板直到源视频结束
+ * - hold：模板播放完后定格最后一帧
+ * - trim：将源视频截断到模板时长
+ */
+export type TemplateDurationPolicy = 'loop' | 'hold' | 'trim'
+
 /**
- * 支持的模板类型枚举。
+ * 未指定时长策略时的默认值。
  */
-export type TemplateVariant = 'vertical' | 'square' | 'landscape'
+export const DEFAULT_TEMPLATE_DURATION_POLICY: TemplateDurationPolicy = 'loop'
+
+/**
+ * 源视频与模板时长相差不超过该值时视为等长。
+ */
+const DURATION_TOLERANCE_SECONDS = 0.05
+
+/**
+ * 单个输出实际采用的时长处理方案：
+ * - static：图片模板，始终跟随源视频时长
+ * - none：模板不短于源视频，按源视频时长输出
+ * - shortest：无法读取时长，沿用 -shortest
+ * - loop / hold / trim：模板较短，按对应策略处理
+ */
+export interface DurationPlan {
+  policy: TemplateDurationPolicy
+  applied: TemplateDurationPolicy | 'static' | 'none' | 'shortest'
+  sourceSeconds: number | null
+  templateSeconds: number | null
+  /** 合成主体（不含片头片尾）的时长 */
+  outputSeconds: number | null
+  /** 片头时长，没有片头时为 0 */
+  introSeconds: number
+  /** 片尾时长，没有片尾时为 0 */
+  outroSeconds: number
+  /** 成片总时长 = 片头 + 主体 + 片尾；主体时长未知时为 null，草稿设置了时长上限时为截断后的时长 */
+  totalSeconds: number | null
+}
+
+/**
+ * 拼接在合成画面前后的片头 / 片尾素材，可以是视频或图片（如品牌尾板）。
+ */
+export interface BumperClip {
+  path: string
+  originalName: string
+  /** 片段时长：视频取实际时长（可被截短），图片取请求中的时长 */
+  durationSeconds: number
+  isImage: boolean
+  hasAudio: boolean
+}
+
+/**
+ * 图片片头 / 片尾未指定时长时的默认值（秒）。
+ */
+export const DEFAULT_IMAGE_BUMPER_SECONDS = 2
+
+/**
+ * 拼接片头片尾时统一的音频格式，保证 concat 前后各段一致。
+ */
+const BUMPER_AUDIO_SAMPLE_RATE = 48000
+const BUMPER_AUDIO_NORMALIZE = `aresample=${BUMPER_AUDIO_SAMPLE_RATE},aformat=sample_fmts=fltp:channel_layouts=stereo`
+
+/**
+ * 源视频读取不到帧率时使用的帧率。
+ */
+const FALLBACK_FRAME_RATE = 30
+
+/**
+ * ffprobe 读取到的源视频信息。
+ */
+export interface MediaProbeResult {
+  durationSeconds: number | null
+  hasAudio: boolean
+  frameRate: number | null
+}
 
 /**
  * 模板元数据信息：用于判断模板是否含 Alpha 通道以及分辨率信息。
@@ -30,6 +135,10 @@ export interface TemplateMetadata {
   width: number | null
   height: number | null
   pixelFormat: string | null
+  /** 模板时长（秒），图片或读取失败时为 null */
+  durationSeconds: number | null
+  /** 采样帧中透明区域的外接矩形（模板原始分辨率），未识别到时为 null */
+  transparentWindow: PixelRect | null
 }
 
 /**
@@ -40,6 +149,8 @@ export const defaultTemplateMetadata: TemplateMetadata = {
   width: null,
   height: null,
   pixelFormat: null,
+  durationSeconds: null,
+  transparentWindow: null,
 }
 
 /**
@@ -48,6 +159,8 @@ export const defaultTemplateMetadata: TemplateMetadata = {
 export interface UploadedVideoDescriptor {
   path: string
   originalName: string
+  /** 需要烧录到所有尺寸中的字幕文件 */
+  subtitle?: SubtitleDescriptor
 }
 
 /**
@@ -58,6 +171,16 @@ export interface TemplateDescriptor {
   originalName: string
   variant: TemplateVariant
   metadata: TemplateMetadata | null
+  /** 源视频窗口的放置规则；缺省时使用该尺寸的默认布局 */
+  placement?: TemplatePlacement | null
+  /** 模板比源视频短时的时长策略，缺省为 loop */
+  durationPolicy?: TemplateDurationPolicy
+  /** 源视频未铺满窗口/画布时留白区域的填充方式，缺省为黑色 */
+  background?: BackgroundFill
+  /** 拼接在成片前的片头 */
+  intro?: BumperClip
+  /** 拼接在成片后的片尾 */
+  outro?: BumperClip
 }
 
 /**
@@ -65,11 +188,14 @@ export interface TemplateDescriptor {
  */
 export interface VideoProcessorPayload {
   videos: UploadedVideoDescriptor[]
-  templates: {
-    vertical?: TemplateDescriptor
-    square?: TemplateDescriptor
-    landscape?: TemplateDescriptor
-  }
+  /** 以输出尺寸 id 为键的模板集合 */
+  templates: Partial<Record<TemplateVariant, TemplateDescriptor>>
+  /** 编码配置 id（见 `lib/encoding-profiles.ts`），缺省为 Master H.264 */
+  encodingProfileId?: string
+  /** 封面取帧方式，缺省为 best */
+  poster?: PosterOptions
+  /** 渲染质量，缺省为 final */
+  quality?: RenderQuality
 }
 
 /**
@@ -79,16 +205,281 @@ export interface GeneratedVideoResult {
   type: TemplateVariant
   url: string
   filename: string
+  /** 生成该文件所用的编码配置 id */
+  encodingProfile: string
+  /** 渲染质量；draft 为半分辨率的审片草稿 */
+  quality: RenderQualityTier
+  /** 源视频与模板时长及实际采用的时长处理方案 */
+  duration: DurationPlan
+  /** 与成片同尺寸的封面 JPEG；生成失败时为 null */
+  posterUrl: string | null
+  /** 宽度 320 的预览缩略图 JPEG；生成失败时为 null */
+  thumbnailUrl: string | null
+}
+
+/**
+ * 单个输出（某个源视频 × 某种尺寸）的最终结果：
+ * ok 时 filename 指向可下载的成片；failed 时附带错误信息，其他输出不受影响。
+ */
+export interface VariantOutputStatus {
+  /** 源视频在批次中的序号（从 0 开始） */
+  videoIndex: number
+  videoName: string
+  variant: TemplateVariant
+  status: 'ok' | 'failed'
+  /** 实际尝试渲染的次数（含重试） */
+  attempts: number
+  filename?: string
+  error?: string
+}
+
+/**
+ * 批量处理结果：videos 只包含成功生成的成片，outputs 覆盖每一个输出的成败。
+ */
+export interface VideoBatchResult {
+  /** 所有输出均成功时为 true */
+  success: boolean
+  message: string
+  videos: GeneratedVideoResult[]
+  outputs: VariantOutputStatus[]
+}
+
+/**
+ * 试运行中单个输出（源视频 × 尺寸）的渲染计划。
+ */
+export interface PlannedVariantOutput {
+  videoIndex: number
+  videoName: string
+  variant: TemplateVariant
+  /** 输出画面大小；草稿为画布的一半 */
+  width: number
+  height: number
+  /** 实际渲染时文件名中的时间戳在开始渲染时生成，这里仅供参考 */
+  filename: string
+  templateType: 'image' | 'video'
+  /** 模板带 Alpha 时源视频在下层，否则叠加在模板之上 */
+  hasAlphaChannel: boolean
+  placement: TemplatePlacement
+  background: BackgroundFill['mode']
+  hasSubtitle: boolean
+  duration: DurationPlan
+  /** 无法生成渲染参数时为 null，原因见 error */
+  spec: CompositeRenderSpec | null
+  /** 与渲染时相同顺序的 FFmpeg 命令行参数（不含 ffmpeg 本身） */
+  ffmpegArguments: string[] | null
+  error?: string
+}
+
+/**
+ * 试运行结果：探测全部输入并解析模板与布局，但不做任何编码。
+ */
+export interface VideoBatchPlan {
+  /** 所有输出都能生成渲染参数时为 true */
+  valid: boolean
+  quality: RenderQuality
+  /** 实际使用的编码配置 id；草稿固定为快速配置 */
+  encodingProfile: string
+  container: OutputContainer
+  poster: PosterOptions
+  videos: Array<{ videoIndex: number; videoName: string; source: MediaProbeResult }>
+  outputs: PlannedVariantOutput[]
+}
+
+/**
+ * 单个尺寸的合成预览帧。
+ */
+export interface CompositePreviewFrame {
+  variant: TemplateVariant
+  width: number
+  height: number
+  /** 实际取帧的时间点（秒），请求的时间点超出时长时会被截到最后一帧 */
+  seconds: number
+  png: Buffer
+}
+
+/**
+ * 渲染质量档位。
+ */
+export type RenderQualityTier = 'final' | 'draft'
+
+/**
+ * 渲染质量：
+ * - final：按所选编码配置输出完整分辨率、完整时长的成片
+ * - draft：合成参数与 final 完全相同，输出缩小为一半分辨率并使用快速预设编码，
+ *   可用 maxSeconds 只渲染成片的前若干秒；文件名带 `_draft`，审片通过后可按相同参数转为 final
+ */
+export type RenderQuality = { tier: 'final' } | { tier: 'draft'; maxSeconds?: number }
+
+export const DEFAULT_RENDER_QUALITY: RenderQuality = { tier: 'final' }
+
+/**
+ * 封面取帧方式：
+ * - best：在合成主体（不含片头片尾）中均匀采样，选出最有代表性的一帧
+ * - timestamp：取成片时间轴上指定秒数的画面
+ */
+export type PosterOptions = { mode: 'best' } | { mode: 'timestamp'; seconds: number }
+
+/**
+ * 未指定封面取帧方式时的默认值。
+ */
+export const DEFAULT_POSTER_OPTIONS: PosterOptions = { mode: 'best' }
+
+/**
+ * 单个输出（某个源视频 × 某种尺寸）的渲染阶段：
+ * queued 等待中 → rendering FFmpeg 合成中 → poster 生成封面 → completed；
+ * 遇到临时故障时进入 retrying 等待重试，最终仍失败时为 failed。
+ */
+export type VariantRenderPhase = 'queued' | 'rendering' | 'retrying' | 'poster' | 'completed' | 'failed'
+
+/**
+ * 整个批次所处的阶段：
+ * - preparing：读取源视频信息，尚未开始合成
+ * - rendering：至少一个输出正在合成
+ * - finalizing：合成已结束，正在生成封面或收尾
+ */
+export type BatchRenderPhase = 'preparing' | 'rendering' | 'finalizing'
+
+/**
+ * 单个输出的进度。
+ */
+export interface VariantRenderProgress {
+  /** 源视频在批次中的序号（从 0 开始） */
+  videoIndex: number
+  /** 源视频原始文件名 */
+  videoName: string
+  variant: TemplateVariant
+  phase: VariantRenderPhase
+  /** 0-1 之间的完成比例 */
+  fraction: number
+  /** 已开始的渲染次数（含重试），尚未开始时为 0 */
+  attempts: number
+  /** 最近一次渲染失败的错误信息 */
+  lastError?: string
+}
+
+/**
+ * 批次的细粒度进度，会在 FFmpeg 每次上报进度时回调。
+ */
+export interface BatchRenderProgress {
+  phase: BatchRenderPhase
+  completedVariants: number
+  totalVariants: number
+  /** 0-1 之间的整体完成比例（各输出完成比例的平均值） */
+  fraction: number
+  variants: VariantRenderProgress[]
 }
 
 /**
  * 可选的任务配置，例如进度回调。
  */
 export interface ProcessVideoOptions {
-  onProgress?: (completed: number, total: number) => void
+  onProgress?: (progress: BatchRenderProgress) => void
+  /** 取消信号：触发后会终止正在运行的 FFmpeg 进程并删除本批次已生成的文件 */
+  signal?: AbortSignal
+  /** 单个输出渲染失败时的重试策略，缺省使用 DEFAULT_RENDER_RETRY_POLICY */
+  retryPolicy?: RenderRetryPolicy
+  /** 每次启动 FFmpeg 合成前回调本次使用的输入、滤镜图与输出参数，供调试包记录 */
+  onRenderSpec?: (record: RenderSpecRecord) => void
+}
+
+/**
+ * 一次合成尝试实际使用的 FFmpeg 参数。
+ */
+export interface RenderSpecRecord extends CompositeRenderSpec {
+  videoIndex: number
+  variant: TemplateVariant
+  attempt: number
+}
+
+/**
+ * 批次被取消时抛出的错误，便于调用方与普通渲染失败区分。
+ */
+export class RenderCancelledError extends Error {
+  constructor(message = '任务已取消') {
+    super(message)
+    this.name = 'RenderCancelledError'
+  }
+}
+
+/**
+ * 若取消信号已触发则抛出 RenderCancelledError。
+ */
+function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new RenderCancelledError()
+  }
+}
+
+/**
+ * 等待重试间隔；取消信号触发时立即以 RenderCancelledError 结束。
+ */
+function waitForRetry(delayMs: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RenderCancelledError())
+      return
+    }
+
+    const abort = () => {
+      clearTimeout(timer)
+      reject(new RenderCancelledError())
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort)
+      resolve()
+    }, delayMs)
+    signal?.addEventListener('abort', abort, { once: true })
+  })
+}
+
+/**
+ * 运行一条 FFmpeg 命令；取消信号触发时以 SIGKILL 结束进程，并以 RenderCancelledError 结束。
+ * 完整命令行与 stderr 会写入当前任务的日志，便于事后排查。
+ *
+ * @param description - 用于日志的命令说明，例如“生成方版视频”
+ */
+function runFfmpegCommand(command: ffmpeg.FfmpegCommand, description: string, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RenderCancelledError())
+      return
+    }
+
+    const abort = () => command.kill('SIGKILL')
+    signal?.addEventListener('abort', abort, { once: true })
+    command
+      .on('start', (commandLine: string) => logger.info(`🎥 开始${description}`, { command: commandLine }))
+      .on('stderr', (line: string) => recordFfmpegOutput(line))
+      .on('end', () => {
+        signal?.removeEventListener('abort', abort)
+        resolve()
+      })
+      .on('error', (err) => {
+        signal?.removeEventListener('abort', abort)
+        reject(signal?.aborted ? new RenderCancelledError() : err)
+      })
+      .run()
+  })
 }
 
 const OUTPUT_DIRECTORY = '/tmp'
+/**
+ * 预览缩略图宽度（像素），高度按比例计算。
+ */
+const THUMBNAIL_WIDTH = 320
+/**
+ * best 模式最多采样的帧数与采样帧率上限，限制 thumbnail 滤镜缓存的帧数。
+ */
+const POSTER_SAMPLE_FRAMES = 30
+const POSTER_MAX_SAMPLE_RATE = 2
+/**
+ * 时长未知时 best 模式的搜索范围（秒）。
+ */
+const POSTER_FALLBACK_SEARCH_SECONDS = 30
+/**
+ * FFmpeg 合成在单个输出进度中所占的比例，其余部分留给封面生成。
+ */
+const RENDER_PHASE_WEIGHT = 0.95
 
 const explicitFfmpegPath =
   process.env.LOCAL_FFMPEG_PATH ??
@@ -99,6 +490,24 @@ const explicitFfmpegPath =
 const installerFfmpegPath = ffmpegInstaller?.path ?? null
 
 let ffmpegConfigured = false
+let configuredFfmpegPath: string | null = null
+
+/**
+ * 透明窗口识别时采样的帧数。
+ */
+const TRANSPARENT_WINDOW_SAMPLE_FRAMES = 5
+/**
+ * Alpha 不高于该值的像素视为透明。
+ */
+const TRANSPARENT_ALPHA_THRESHOLD = 16
+/**
+ * 透明像素占比低于该值时视为没有窗口（避免抗锯齿边缘被误判）。
+ */
+const MIN_TRANSPARENT_AREA_RATIO = 0.005
+/**
+ * 采样进程的最长运行时间。
+ */
+const TRANSPARENT_WINDOW_PROBE_TIMEOUT_MS = 60 * 1000
 
 type FfmpegBinarySource = 'custom-env' | 'bundled-static' | 'installer-package' | 'system-detect'
 
@@ -182,6 +591,7 @@ function ensureFfmpegIsReady(): void {
   const { path: resolvedPath, source } = resolveFfmpegBinary()
 
   ffmpeg.setFfmpegPath(resolvedPath)
+  configuredFfmpegPath = resolvedPath
   ffmpegConfigured = true
   const sourceLabel =
     source === 'custom-env'
@@ -191,23 +601,132 @@ function ensureFfmpegIsReady(): void {
         : source === 'installer-package'
           ? '@ffmpeg-installer/ffmpeg'
           : '系统 PATH'
-  console.log(`🎬 FFmpeg 路径已锁定 (${sourceLabel}):`, resolvedPath)
+  logger.info(`🎬 FFmpeg 路径已锁定 (${sourceLabel}): ${resolvedPath}`)
+}
+
+/**
+ * 抽取模板若干帧的 Alpha 平面，计算所有采样帧中透明像素的外接矩形。
+ *
+ * @param label - 友好的模板名称用于日志
+ * @param filePath - 模板实际在磁盘上的路径
+ * @param width - 模板宽度
+ * @param height - 模板高度
+ * @param durationSeconds - 模板时长，用于均匀分布采样帧；图片或未知时为 null
+ * @returns 透明区域；识别失败或透明区域过小时返回 null
+ */
+async function detectTransparentWindow(
+  label: string,
+  filePath: string,
+  width: number,
+  height: number,
+  durationSeconds: number | null,
+): Promise<PixelRect | null> {
+  if (!configuredFfmpegPath) {
+    return null
+  }
+
+  // 首帧必定被选中，之后按“时长 / 采样帧数”的间隔均匀取帧；图片只有一帧。
+  const sampleInterval =
+    durationSeconds && durationSeconds > 0 ? durationSeconds / TRANSPARENT_WINDOW_SAMPLE_FRAMES : 1
+  const frameSize = width * height
+  const args = [
+    '-v',
+    'error',
+    '-i',
+    filePath,
+    '-vf',
+    `select='isnan(prev_selected_t)+gte(t-prev_selected_t,${sampleInterval.toFixed(3)})',format=rgba,alphaextract`,
+    '-vsync',
+    'vfr',
+    '-frames:v',
+    `${TRANSPARENT_WINDOW_SAMPLE_FRAMES}`,
+    '-f',
+    'rawvideo',
+    '-pix_fmt',
+    'gray',
+    'pipe:1',
+  ]
+
+  return await new Promise<PixelRect | null>((resolve) => {
+    const child = spawn(configuredFfmpegPath as string, args, { stdio: ['ignore', 'pipe', 'pipe'] })
+    let offset = 0
+    let transparentPixels = 0
+    let minX = width
+    let minY = height
+    let maxX = -1
+    let maxY = -1
+    let stderr = ''
+
+    const timer = setTimeout(() => {
+      logger.warn(`⚠️  ${label} 透明窗口识别超时，已放弃`)
+      child.kill('SIGKILL')
+    }, TRANSPARENT_WINDOW_PROBE_TIMEOUT_MS)
+
+    child.stdout.on('data', (chunk: Buffer) => {
+      for (let index = 0; index < chunk.length; index += 1) {
+        if (chunk[index] <= TRANSPARENT_ALPHA_THRESHOLD) {
+          const pixelIndex = (offset + index) % frameSize
+          const x = pixelIndex % width
+          const y = Math.floor(pixelIndex / width)
+          transparentPixels += 1
+          if (x < minX) minX = x
+          if (x > maxX) maxX = x
+          if (y < minY) minY = y
+          if (y > maxY) maxY = y
+        }
+      }
+      offset += chunk.length
+    })
+
+    child.stderr.on('data', (chunk: Buffer) => {
+      stderr += chunk.toString()
+    })
+
+    child.on('error', (error) => {
+      clearTimeout(timer)
+      logger.warn(`⚠️  ${label} 透明窗口识别失败: ${error.message}`)
+      resolve(null)
+    })
+
+    child.on('close', (code) => {
+      clearTimeout(timer)
+      const sampledFrames = Math.floor(offset / frameSize)
+      if (code !== 0 || sampledFrames === 0) {
+        logger.warn(`⚠️  ${label} 透明窗口识别失败: ${stderr.trim() || `ffmpeg 退出码 ${code}`}`)
+        resolve(null)
+        return
+      }
+
+      if (maxX < 0 || transparentPixels / (sampledFrames * frameSize) < MIN_TRANSPARENT_AREA_RATIO) {
+        logger.info(`🔍 ${label} 未检测到有效的透明窗口`)
+        resolve(null)
+        return
+      }
+
+      const detected = { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 }
+      logger.info(
+        `🔍 ${label} 透明窗口: ${detected.width}x${detected.height} @ (${detected.x}, ${detected.y})，采样 ${sampledFrames} 帧`,
+      )
+      resolve(detected)
+    })
+  })
 }
 
 /**
- * 使用 ffprobe 读取模板文件的核心元数据，并判断是否包含 Alpha 通道。
+ * 使用 ffprobe 读取模板文件的核心元数据，判断是否包含 Alpha 通道，
+ * 并对带 Alpha 的模板采样识别透明窗口的位置。
  *
  * @param label - 友好的模板名称用于日志
  * @param filePath - 模板实际在磁盘上的路径
- * @returns 模板的分辨率、像素格式和 Alpha 通道信息
+ * @returns 模板的分辨率、像素格式、Alpha 通道与透明窗口信息
  */
 export async function readTemplateMetadata(label: string, filePath: string): Promise<TemplateMetadata> {
   ensureFfmpegIsReady()
-  return await new Promise<TemplateMetadata>((resolve) => {
+  const probed = await new Promise<TemplateMetadata | null>((resolve) => {
     ffmpeg.ffprobe(filePath, (err, metadata) => {
       if (err || !metadata) {
-        console.warn(`⚠️  无法读取 ${label} 元数据:`, err?.message ?? '未知错误')
-        resolve(defaultTemplateMetadata)
+        logger.warn(`⚠️  无法读取 ${label} 元数据: ${err?.message ?? '未知错误'}`)
+        resolve(null)
         return
       }
 
@@ -222,320 +741,976 @@ export async function readTemplateMetadata(label: string, filePath: string): Pro
         normalizedPixFmt.includes('yuva') ||
         normalizedPixFmt.endsWith('a')
 
-      console.log(
+      logger.info(
         `🧩 ${label} 像素格式: ${pixelFormat ?? '未知'}, 带 Alpha: ${hasAlphaChannel ? '是' : '否'}, 尺寸: ${
           videoStream?.width ?? '未知'
         }x${videoStream?.height ?? '未知'}`,
       )
 
+      const rawDuration = Number(metadata.format?.duration)
       resolve({
         hasAlphaChannel,
         width: videoStream?.width ?? null,
         height: videoStream?.height ?? null,
         pixelFormat,
+        durationSeconds: Number.isFinite(rawDuration) && rawDuration > 0 ? rawDuration : null,
+        transparentWindow: null,
       })
     })
   })
+
+  if (!probed) {
+    return defaultTemplateMetadata
+  }
+
+  if (probed.hasAlphaChannel && probed.width && probed.height) {
+    probed.transparentWindow = await detectTransparentWindow(
+      label,
+      filePath,
+      probed.width,
+      probed.height,
+      probed.durationSeconds,
+    )
+  }
+
+  return probed
 }
 
 /**
- * 生成竖版视频 (1080x1920)：竖版视频作为底层，叠加竖版模板。
+ * 返回模板实际生效的放置规则，优先级：
+ * 1. 模板自带的 placement 配置
+ * 2. 元数据中自动识别出的透明窗口
+ * 3. 该尺寸的默认布局
  */
-async function generateVerticalVideo(
-  verticalVideoPath: string,
-  verticalTemplatePath: string,
-  verticalTemplateOriginalName: string,
-  outputPath: string,
-  templateMetadata: TemplateMetadata | null = null,
-): Promise<void> {
-  const metadata = templateMetadata ?? defaultTemplateMetadata
-  return new Promise((resolve, reject) => {
-    const isImage = /\.(jpg|jpeg|png|gif|bmp|webp)$/i.test(verticalTemplateOriginalName)
+export function resolveTemplatePlacement(template: TemplateDescriptor): TemplatePlacement {
+  if (template.placement) {
+    return template.placement
+  }
+
+  const metadata = template.metadata
+  if (metadata?.transparentWindow && metadata.width && metadata.height) {
+    const detected = placementFromTransparentWindow(
+      metadata.transparentWindow,
+      { width: metadata.width, height: metadata.height },
+      requireOutputVariant(template.variant).canvas,
+    )
+    if (detected) {
+      return detected
+    }
+  }
+
+  return requireOutputVariant(template.variant).defaultPlacement
+}
 
-    console.log(`🎨 竖版模板类型: ${isImage ? '图片' : '视频'}`)
+/**
+ * 根据文件名判断是否为静态图片。
+ */
+function isImageFile(originalName: string): boolean {
+  return /\.(jpg|jpeg|png|gif|bmp|webp)$/i.test(originalName)
+}
 
-    const command = ffmpeg()
+/**
+ * 判断模板是否为静态图片。
+ */
+function isImageTemplate(template: TemplateDescriptor): boolean {
+  return isImageFile(template.originalName)
+}
 
-    command.input(verticalTemplatePath)
-    command.input(verticalVideoPath)
+/**
+ * 将 FFmpeg 进度中的 `HH:MM:SS.xx` 时间点转换为秒；无法解析或为负值（编码尚未开始）时返回 null。
+ */
+function parseTimemark(timemark: string | undefined): number | null {
+  const match = timemark ? /^(\d+):(\d{2}):(\d{2}(?:\.\d+)?)$/.exec(timemark.trim()) : null
+  if (!match) return null
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3])
+}
 
-    const templateFilter = isImage
-      ? '[0:v]scale=1080:1920:force_original_aspect_ratio=decrease:flags=lanczos,setsar=1,format=rgba,loop=-1:1:0[template]'
-      : '[0:v]scale=1080:1920:force_original_aspect_ratio=decrease:flags=lanczos,setsar=1,format=rgba[template]'
+/**
+ * 将 ffprobe 的 `30000/1001` 形式帧率转换为数字。
+ */
+function parseFrameRate(raw: string | undefined): number | null {
+  if (!raw) return null
+  const [numerator, denominator = '1'] = raw.split('/')
+  const value = Number(numerator) / Number(denominator)
+  return Number.isFinite(value) && value > 0 ? value : null
+}
 
-    command
-      .complexFilter([
-        '[1:v]scale=1080:1920:force_original_aspect_ratio=decrease:flags=lanczos,pad=1080:1920:(ow-iw)/2:(oh-ih)/2:color=black,setsar=1,format=rgba[video]',
-        templateFilter,
-        metadata.hasAlphaChannel ? '[video][template]overlay=0:0[out]' : '[template][video]overlay=0:0[out]',
-      ])
-      .outputOptions([
-        '-map',
-        '[out]',
-        '-map',
-        '1:a?',
-        '-c:v',
-        'libx264',
-        '-preset',
-        'slow',
-        '-crf',
-        '18',
-        '-c:a',
-        'aac',
-        '-b:a',
-        '192k',
-        '-shortest',
-        '-pix_fmt',
-        'yuv420p',
-        '-movflags',
-        '+faststart',
-      ])
-      .output(outputPath)
-      .on('start', (cmd) => console.log(`🎥 开始生成竖版视频: ${cmd}`))
-      .on('end', () => resolve())
-      .on('error', (err) => reject(err))
-      .run()
+/**
+ * 读取 ffprobe 的完整输出（格式与全部流信息），供调试包留档。
+ *
+ * @param filePath - 媒体文件路径
+ */
+export async function readFfprobeData(filePath: string): Promise<ffmpeg.FfprobeData> {
+  ensureFfmpegIsReady()
+  return await new Promise<ffmpeg.FfprobeData>((resolve, reject) => {
+    ffmpeg.ffprobe(filePath, (err, metadata) => {
+      if (err || !metadata) {
+        reject(err ?? new Error(`无法读取媒体信息: ${filePath}`))
+        return
+      }
+      resolve(metadata)
+    })
+  })
+}
+
+/**
+ * 使用 ffprobe 读取媒体时长（秒）、是否带音轨以及视频帧率；读取失败时各项为空。
+ *
+ * @param filePath - 媒体文件路径
+ */
+export async function probeMedia(filePath: string): Promise<MediaProbeResult> {
+  ensureFfmpegIsReady()
+  return await new Promise<MediaProbeResult>((resolve) => {
+    ffmpeg.ffprobe(filePath, (err, metadata) => {
+      if (err || !metadata) {
+        logger.warn(`⚠️  无法读取媒体信息: ${filePath}: ${err?.message ?? '未知错误'}`)
+        resolve({ durationSeconds: null, hasAudio: false, frameRate: null })
+        return
+      }
+      const duration = Number(metadata.format?.duration)
+      const videoStream = metadata.streams?.find((stream) => stream.codec_type === 'video')
+      resolve({
+        durationSeconds: Number.isFinite(duration) && duration > 0 ? duration : null,
+        hasAudio: Boolean(metadata.streams?.some((stream) => stream.codec_type === 'audio')),
+        frameRate: parseFrameRate(videoStream?.avg_frame_rate) ?? parseFrameRate(videoStream?.r_frame_rate),
+      })
+    })
   })
 }
 
 /**
- * 生成方版视频 (1080x1080)：竖版视频保持比例缩放到高度 1080，居中放置，然后叠加方版模板。
+ * 读取片头 / 片尾素材的信息。视频素材必须能读取到时长；
+ * 指定的时长短于素材本身时按指定时长截取，图片素材直接使用指定时长。
+ *
+ * @param label - 用于日志与错误信息的名称
+ * @param filePath - 素材在磁盘上的路径
+ * @param originalName - 原始文件名，用于判断是否为图片
+ * @param requestedSeconds - 请求中指定的时长
+ */
+export async function readBumperClip(
+  label: string,
+  filePath: string,
+  originalName: string,
+  requestedSeconds?: number,
+): Promise<BumperClip> {
+  if (isImageFile(originalName)) {
+    return {
+      path: filePath,
+      originalName,
+      durationSeconds: requestedSeconds ?? DEFAULT_IMAGE_BUMPER_SECONDS,
+      isImage: true,
+      hasAudio: false,
+    }
+  }
+
+  const probed = await probeMedia(filePath)
+  if (probed.durationSeconds === null) {
+    throw new Error(`${label} 无法读取时长，请确认文件是有效的视频`)
+  }
+
+  const durationSeconds = requestedSeconds ? Math.min(requestedSeconds, probed.durationSeconds) : probed.durationSeconds
+  logger.info(`🎞️ ${label}: ${originalName}, ${durationSeconds.toFixed(2)}s, 音轨: ${probed.hasAudio ? '有' : '无'}`)
+  return { path: filePath, originalName, durationSeconds, isImage: false, hasAudio: probed.hasAudio }
+}
+
+/**
+ * 根据模板时长策略、源视频与模板的实际时长，推算最终采用的处理方式与输出时长。
+ *
+ * @param template - 模板信息（含时长策略与元数据）
+ * @param sourceSeconds - 源视频时长，未知时为 null
+ * @returns 时长处理方案，会原样写入任务结果
+ */
+export function resolveDurationPlan(template: TemplateDescriptor, sourceSeconds: number | null): DurationPlan {
+  const introSeconds = template.intro?.durationSeconds ?? 0
+  const outroSeconds = template.outro?.durationSeconds ?? 0
+  const core = resolveCompositeDuration(template, sourceSeconds)
+  return {
+    ...core,
+    introSeconds,
+    outroSeconds,
+    totalSeconds: core.outputSeconds === null ? null : introSeconds + core.outputSeconds + outroSeconds,
+  }
+}
+
+/**
+ * 推算合成主体（不含片头片尾）的时长方案。
+ */
+function resolveCompositeDuration(
+  template: TemplateDescriptor,
+  sourceSeconds: number | null,
+): Pick<DurationPlan, 'policy' | 'applied' | 'sourceSeconds' | 'templateSeconds' | 'outputSeconds'> {
+  const policy = template.durationPolicy ?? DEFAULT_TEMPLATE_DURATION_POLICY
+  const isImage = isImageTemplate(template)
+  const templateSeconds = isImage ? null : template.metadata?.durationSeconds ?? null
+
+  if (isImage) {
+    return { policy, applied: 'static', sourceSeconds, templateSeconds, outputSeconds: sourceSeconds }
+  }
+
+  if (sourceSeconds === null || templateSeconds === null) {
+    return { policy, applied: 'shortest', sourceSeconds, templateSeconds, outputSeconds: null }
+  }
+
+  if (templateSeconds + DURATION_TOLERANCE_SECONDS >= sourceSeconds) {
+    return { policy, applied: 'none', sourceSeconds, templateSeconds, outputSeconds: sourceSeconds }
+  }
+
+  return {
+    policy,
+    applied: policy,
+    sourceSeconds,
+    templateSeconds,
+    outputSeconds: policy === 'trim' ? templateSeconds : sourceSeconds,
+  }
+}
+
+/**
+ * 一次 FFmpeg 合成所需的输入、滤镜与输出参数。
+ */
+export interface CompositeRenderSpec {
+  inputs: Array<{ path: string; options: string[] }>
+  filters: string[]
+  outputOptions: string[]
+}
+
+/**
+ * 生成一个片头 / 片尾片段的视频与音频滤镜：缩放并补边到画布大小、统一帧率与像素格式，
+ * 音频统一为 48kHz 立体声，没有音轨的素材补静音。
+ */
+function buildBumperFilters(
+  clip: BumperClip,
+  inputIndex: number,
+  name: string,
+  canvas: CanvasSize,
+  frameRate: number,
+  pixelFormat: string,
+): string[] {
+  const seconds = clip.durationSeconds.toFixed(3)
+  const videoChain = [
+    `scale=${canvas.width}:${canvas.height}:force_original_aspect_ratio=decrease:flags=lanczos`,
+    `pad=${canvas.width}:${canvas.height}:(ow-iw)/2:(oh-ih)/2:color=black`,
+    'setsar=1',
+    `fps=${frameRate}`,
+    `trim=duration=${seconds}`,
+    'setpts=PTS-STARTPTS',
+    `format=${pixelFormat}`,
+  ]
+  const audioFilter = clip.hasAudio
+    ? `[${inputIndex}:a]${BUMPER_AUDIO_NORMALIZE},apad,atrim=duration=${seconds},asetpts=PTS-STARTPTS[${name}_a]`
+    : `anullsrc=r=${BUMPER_AUDIO_SAMPLE_RATE}:cl=stereo,atrim=duration=${seconds}[${name}_a]`
+
+  return [`[${inputIndex}:v]${videoChain.join(',')}[${name}_v]`, audioFilter]
+}
+
+/**
+ * 构造合成主体（不含片头片尾）的输入与滤镜：模板为输入 0，源视频为输入 1，图片填充时背景图追加在后面。
+ * 源视频按放置规则缩放进窗口并按填充方式处理留白，模板按是否带 Alpha 决定叠加顺序，并按时长方案循环、定格或截断。
+ * 源视频带字幕时，字幕在模板之上烧录，位置跟随源视频窗口。
+ *
+ * @returns 输入、滤镜与合成画面的输出标签
  */
-async function generateSquareVideo(
-  verticalVideoPath: string,
-  squareTemplatePath: string,
-  squareTemplateOriginalName: string,
+function buildCompositeLayers(
+  video: UploadedVideoDescriptor,
+  template: TemplateDescriptor,
+  durationPlan: DurationPlan,
+): Pick<CompositeRenderSpec, 'inputs' | 'filters'> & { compositeLabel: string } {
+  const metadata = template.metadata ?? defaultTemplateMetadata
+  const { canvas } = requireOutputVariant(template.variant)
+  const placement = resolveTemplatePlacement(template)
+  const inputs: CompositeRenderSpec['inputs'] = [
+    { path: template.path, options: durationPlan.applied === 'loop' ? ['-stream_loop', '-1'] : [] },
+    { path: video.path, options: [] },
+  ]
+  let backgroundImageLabel: string | undefined
+  if (template.background?.mode === 'image') {
+    backgroundImageLabel = `${inputs.length}:v`
+    inputs.push({ path: template.background.path, options: [] })
+  }
+
+  const templateFilters = [
+    `scale=${canvas.width}:${canvas.height}:force_original_aspect_ratio=decrease:flags=lanczos`,
+    'setsar=1',
+    'format=rgba',
+  ]
+  if (durationPlan.applied === 'static') {
+    templateFilters.push('loop=-1:1:0')
+  }
+  if (durationPlan.applied === 'hold' && durationPlan.outputSeconds && durationPlan.templateSeconds) {
+    const holdSeconds = durationPlan.outputSeconds - durationPlan.templateSeconds
+    templateFilters.push(`tpad=stop_mode=clone:stop_duration=${holdSeconds.toFixed(3)}`)
+  }
+
+  const filters = [
+    ...buildVideoLayerFilters('1:v', 'video_layer', placement, canvas, template.background, backgroundImageLabel),
+    `[0:v]${templateFilters.join(',')}[template_layer]`,
+    metadata.hasAlphaChannel
+      ? '[video_layer][template_layer]overlay=0:0[composite]'
+      : '[template_layer][video_layer]overlay=0:0[composite]',
+  ]
+  let compositeLabel = 'composite'
+  if (video.subtitle) {
+    filters.push(buildSubtitleFilter(compositeLabel, 'subtitled', video.subtitle, template.variant, placement, canvas))
+    compositeLabel = 'subtitled'
+  }
+
+  return { inputs, filters, compositeLabel }
+}
+
+/**
+ * 返回输出画面的尺寸：草稿为画布的一半，并保持宽高为偶数以满足 yuv420p。
+ */
+function resolveOutputSize(variant: TemplateVariant, quality: RenderQuality): CanvasSize {
+  const { canvas } = requireOutputVariant(variant)
+  if (quality.tier !== 'draft') {
+    return canvas
+  }
+  return { width: Math.round(canvas.width / 4) * 2, height: Math.round(canvas.height / 4) * 2 }
+}
+
+/**
+ * 草稿设置了时长上限时，把时长方案中的成片总时长截断到上限，进度与封面取帧都以此为准。
+ */
+function applyQualityToDurationPlan(durationPlan: DurationPlan, quality: RenderQuality): DurationPlan {
+  const maxSeconds = quality.tier === 'draft' ? quality.maxSeconds : undefined
+  if (maxSeconds === undefined || durationPlan.totalSeconds === null) {
+    return durationPlan
+  }
+  return { ...durationPlan, totalSeconds: Math.min(durationPlan.totalSeconds, maxSeconds) }
+}
+
+/**
+ * 构造一次模板合成：合成主体见 buildCompositeLayers，片头、片尾作为输入依次追加在后面。
+ * 配置了片头片尾时，合成主体截取到确定时长后与片头片尾在同一个滤镜图中 concat，无需二次编码。
+ * 草稿在完整画布上合成后再整体缩小，布局与正式渲染完全一致；设置了时长上限时只输出前若干秒。
+ */
+function buildCompositeRenderSpec(
+  video: UploadedVideoDescriptor,
+  template: TemplateDescriptor,
+  encodingProfile: EncodingProfile,
+  quality: RenderQuality,
+  durationPlan: DurationPlan,
+  source: MediaProbeResult,
+): CompositeRenderSpec {
+  const { canvas, label } = requireOutputVariant(template.variant)
+  const { inputs, filters, compositeLabel } = buildCompositeLayers(video, template, durationPlan)
+  const outputSize = resolveOutputSize(template.variant, quality)
+  const maxSeconds = quality.tier === 'draft' ? quality.maxSeconds : undefined
+  const appendDraftScale = (inputLabel: string, outputLabel: string) => {
+    filters.push(`[${inputLabel}]scale=${outputSize.width}:${outputSize.height}:flags=bilinear[${outputLabel}]`)
+  }
+
+  const encodingOptions = buildEncodingOutputOptions(encodingProfile)
+  if (!template.intro && !template.outro) {
+    let videoLabel = compositeLabel
+    if (quality.tier === 'draft') {
+      appendDraftScale(compositeLabel, 'draft')
+      videoLabel = 'draft'
+    }
+    const outputSeconds =
+      durationPlan.outputSeconds === null ? null : Math.min(durationPlan.outputSeconds, maxSeconds ?? Infinity)
+    const durationOptions =
+      outputSeconds !== null
+        ? ['-t', outputSeconds.toFixed(3)]
+        : maxSeconds !== undefined
+          ? ['-shortest', '-t', maxSeconds.toFixed(3)]
+          : ['-shortest']
+    return {
+      inputs,
+      filters,
+      outputOptions: ['-map', `[${videoLabel}]`, '-map', '1:a?', ...encodingOptions, ...durationOptions],
+    }
+  }
+
+  if (durationPlan.outputSeconds === null) {
+    throw new Error(`${label}无法读取源视频或模板时长，无法拼接片头片尾`)
+  }
+
+  const frameRate = source.frameRate ?? FALLBACK_FRAME_RATE
+  const mainSeconds = durationPlan.outputSeconds.toFixed(3)
+  filters.push(
+    `[${compositeLabel}]trim=duration=${mainSeconds},setpts=PTS-STARTPTS,fps=${frameRate},setsar=1,format=${encodingProfile.pixelFormat}[main_v]`,
+    source.hasAudio
+      ? `[1:a]${BUMPER_AUDIO_NORMALIZE},apad,atrim=duration=${mainSeconds},asetpts=PTS-STARTPTS[main_a]`
+      : `anullsrc=r=${BUMPER_AUDIO_SAMPLE_RATE}:cl=stereo,atrim=duration=${mainSeconds}[main_a]`,
+  )
+
+  const segments: string[] = []
+  const appendBumper = (name: 'intro' | 'outro', clip: BumperClip) => {
+    const inputIndex = inputs.length
+    inputs.push({ path: clip.path, options: clip.isImage ? ['-loop', '1', '-t', clip.durationSeconds.toFixed(3)] : [] })
+    filters.push(...buildBumperFilters(clip, inputIndex, name, canvas, frameRate, encodingProfile.pixelFormat))
+    segments.push(name)
+  }
+
+  if (template.intro) appendBumper('intro', template.intro)
+  segments.push('main')
+  if (template.outro) appendBumper('outro', template.outro)
+
+  const concatLabel = quality.tier === 'draft' ? 'full' : 'out'
+  filters.push(
+    `${segments.map((segment) => `[${segment}_v][${segment}_a]`).join('')}concat=n=${segments.length}:v=1:a=1[${concatLabel}][out_audio]`,
+  )
+  if (quality.tier === 'draft') {
+    appendDraftScale(concatLabel, 'out')
+  }
+
+  return {
+    inputs,
+    filters,
+    outputOptions: [
+      '-map',
+      '[out]',
+      '-map',
+      '[out_audio]',
+      ...encodingOptions,
+      ...(maxSeconds !== undefined ? ['-t', maxSeconds.toFixed(3)] : []),
+    ],
+  }
+}
+
+/**
+ * 生成单个尺寸的成片：源视频放入模板窗口后与模板叠加。
+ *
+ * @param video - 源视频（含可选的字幕）
+ * @param template - 目标尺寸的模板信息（含放置规则）
+ * @param outputPath - 输出文件路径
+ * @param encodingProfile - 输出使用的编码配置
+ * @param quality - 渲染质量
+ * @param durationPlan - 时长处理方案
+ * @param source - 源视频的时长、音轨与帧率信息
+ * @param onProgress - 按 FFmpeg 已输出的时间点 / 预期成片时长上报 0-1 的进度
+ * @param signal - 取消信号
+ * @param onRenderSpec - 启动 FFmpeg 前回调本次合成的参数
+ */
+async function generateTemplateVideo(
+  video: UploadedVideoDescriptor,
+  template: TemplateDescriptor,
   outputPath: string,
-  templateMetadata: TemplateMetadata | null = null,
+  encodingProfile: EncodingProfile,
+  quality: RenderQuality,
+  durationPlan: DurationPlan,
+  source: MediaProbeResult,
+  onProgress?: (fraction: number) => void,
+  signal?: AbortSignal,
+  onRenderSpec?: (spec: CompositeRenderSpec) => void,
 ): Promise<void> {
-  const metadata = templateMetadata ?? defaultTemplateMetadata
-  return new Promise((resolve, reject) => {
-    const isImage = /\.(jpg|jpeg|png|gif|bmp|webp)$/i.test(squareTemplateOriginalName)
+  const { label } = requireOutputVariant(template.variant)
+  const placement = resolveTemplatePlacement(template)
+  const spec = buildCompositeRenderSpec(video, template, encodingProfile, quality, durationPlan, source)
+  onRenderSpec?.(spec)
 
-    console.log(`🎨 方版模板类型: ${isImage ? '图片' : '视频'}`)
+  logger.info(`🎨 ${label}模板类型: ${isImageTemplate(template) ? '图片' : '视频'}`)
+  logger.info(
+    `📐 ${label}视频窗口: ${placement.width}x${placement.height} @ (${placement.x}, ${placement.y}), ${placement.fit} / ${placement.anchor}`,
+  )
+  logger.info(
+    `⏱️ ${label}时长策略: ${durationPlan.policy} → ${durationPlan.applied}（源 ${durationPlan.sourceSeconds ?? '未知'}s / 模板 ${
+      durationPlan.templateSeconds ?? '未知'
+    }s / 输出 ${durationPlan.outputSeconds ?? '按最短流'}s）`,
+  )
+  logger.info(`🖼️ ${label}留白填充: ${template.background?.mode ?? 'color'}`)
+  if (quality.tier === 'draft') {
+    const outputSize = resolveOutputSize(template.variant, quality)
+    logger.info(
+      `📝 ${label}草稿渲染: ${outputSize.width}x${outputSize.height}${quality.maxSeconds ? `，只输出前 ${quality.maxSeconds}s` : ''}`,
+    )
+  }
+  if (video.subtitle) {
+    logger.info(`💬 ${label}烧录字幕: ${video.subtitle.originalName} (${video.subtitle.format})`)
+  }
+  if (template.intro || template.outro) {
+    logger.info(
+      `🎬 ${label}片头 ${durationPlan.introSeconds}s / 片尾 ${durationPlan.outroSeconds}s，成片共 ${durationPlan.totalSeconds}s`,
+    )
+  }
 
-    const command = ffmpeg()
-    command.input(squareTemplatePath)
-    command.input(verticalVideoPath)
+  const expectedSeconds = durationPlan.totalSeconds ?? durationPlan.sourceSeconds
+  const command = ffmpeg()
+  spec.inputs.forEach((input) => {
+    command.input(input.path).inputOptions(input.options)
+  })
 
-    const templateFilter = isImage
-      ? '[0:v]scale=1080:1080:force_original_aspect_ratio=decrease:flags=lanczos,setsar=1,format=rgba,loop=-1:1:0[template]'
-      : '[0:v]scale=1080:1080:force_original_aspect_ratio=decrease:flags=lanczos,setsar=1,format=rgba[template]'
+  command
+    .complexFilter(spec.filters)
+    .outputOptions(spec.outputOptions)
+    .output(outputPath)
+    .on('progress', (progress: { timemark?: string }) => {
+      const renderedSeconds = parseTimemark(progress.timemark)
+      if (onProgress && expectedSeconds && renderedSeconds !== null) {
+        onProgress(Math.min(renderedSeconds / expectedSeconds, 1))
+      }
+    })
 
-    command
-      .complexFilter([
-        // 先将竖版视频等比缩放到高度 1080，再通过 pad 居中，避免因为裁剪导致画面被放大。
-        '[1:v]scale=-2:1080:force_original_aspect_ratio=decrease:flags=lanczos,setsar=1[video_scaled]',
-        // 方版模板通常将透明窗口放在画面左侧，因此固定使用左对齐，保证画面不会“漂移”。
-        '[video_scaled]pad=1080:1080:0:(1080-ih)/2:black,format=rgba[video_bg]',
-        templateFilter,
-        metadata.hasAlphaChannel ? '[video_bg][template]overlay=0:0[out]' : '[template][video_bg]overlay=0:0[out]',
-      ])
-      .outputOptions([
-        '-map',
-        '[out]',
-        '-map',
-        '1:a?',
-        '-c:v',
-        'libx264',
-        '-preset',
-        'slow',
-        '-crf',
-        '18',
-        '-c:a',
-        'aac',
-        '-b:a',
-        '192k',
-        '-shortest',
-        '-pix_fmt',
-        'yuv420p',
-        '-movflags',
-        '+faststart',
-      ])
-      .output(outputPath)
-      .on('start', (cmd) => console.log(`🎥 开始生成方版视频: ${cmd}`))
-      .on('end', () => resolve())
-      .on('error', (err) => reject(err))
-      .run()
-  })
+  return runFfmpegCommand(command, `生成${label}视频`, signal)
 }
 
 /**
- * 生成横版视频 (1920x1080)：竖版视频居中，横版模板覆盖在最上层。
+ * 从成片中截取封面与缩略图，二者来自同一帧。
+ *
+ * @param outputPath - 成片路径
+ * @param durationPlan - 成片的时长方案，用于确定取帧范围
+ * @param options - 封面取帧方式
+ * @param label - 用于日志的尺寸名称
+ * @param signal - 取消信号；取消时抛出 RenderCancelledError
+ * @returns 封面与缩略图路径；失败时返回 null，不影响成片本身
  */
-async function generateLandscapeVideo(
-  verticalVideoPath: string,
-  landscapeTemplatePath: string,
-  landscapeTemplateOriginalName: string,
+async function generatePosterImages(
   outputPath: string,
-  templateMetadata: TemplateMetadata | null = null,
-): Promise<void> {
-  const metadata = templateMetadata ?? defaultTemplateMetadata
-  return new Promise((resolve, reject) => {
-    const isImage = /\.(jpg|jpeg|png|gif|bmp|webp)$/i.test(landscapeTemplateOriginalName)
+  durationPlan: DurationPlan,
+  options: PosterOptions,
+  label: string,
+  signal?: AbortSignal,
+): Promise<{ posterPath: string; thumbnailPath: string } | null> {
+  const { dir, name } = path.parse(outputPath)
+  const posterPath = path.join(dir, `${name}_poster.jpg`)
+  const thumbnailPath = path.join(dir, `${name}_thumb.jpg`)
 
-    console.log(`🎨 横版模板类型: ${isImage ? '图片' : '视频'}`)
+  let inputOptions: string[]
+  let selection = ''
+  if (options.mode === 'timestamp') {
+    const latest = durationPlan.totalSeconds === null ? options.seconds : Math.max(durationPlan.totalSeconds - 0.1, 0)
+    inputOptions = ['-ss', Math.min(Math.max(options.seconds, 0), latest).toFixed(3)]
+  } else {
+    const searchSeconds = durationPlan.outputSeconds ?? POSTER_FALLBACK_SEARCH_SECONDS
+    const sampleRate = Math.min(POSTER_MAX_SAMPLE_RATE, POSTER_SAMPLE_FRAMES / searchSeconds)
+    inputOptions = ['-ss', durationPlan.introSeconds.toFixed(3), '-t', searchSeconds.toFixed(3)]
+    selection = `fps=${sampleRate.toFixed(4)},thumbnail=n=${POSTER_SAMPLE_FRAMES},`
+  }
 
-    const command = ffmpeg()
-    command.input(landscapeTemplatePath)
-    command.input(verticalVideoPath)
+  const command = ffmpeg()
+    .input(outputPath)
+    .inputOptions(inputOptions)
+    .complexFilter([
+      `[0:v]${selection}setsar=1,split=2[poster][thumbnail_source]`,
+      `[thumbnail_source]scale=${THUMBNAIL_WIDTH}:-2[thumbnail]`,
+    ])
+    .output(posterPath)
+    .outputOptions(['-map', '[poster]', '-frames:v', '1', '-q:v', '2'])
+    .output(thumbnailPath)
+    .outputOptions(['-map', '[thumbnail]', '-frames:v', '1', '-q:v', '4'])
 
-    const templateFilter = isImage
-      ? '[0:v]scale=1920:1080:force_original_aspect_ratio=decrease:flags=lanczos,setsar=1,format=rgba,loop=-1:1:0[template_layer]'
-      : '[0:v]scale=1920:1080:force_original_aspect_ratio=decrease:flags=lanczos,setsar=1,format=rgba[template_layer]'
+  try {
+    await runFfmpegCommand(command, `生成${label}封面`, signal)
+    logger.info(`🖼️ ${label}封面已生成: ${path.basename(posterPath)}（${options.mode}）`)
+    return { posterPath, thumbnailPath }
+  } catch (error) {
+    if (error instanceof RenderCancelledError) {
+      throw error
+    }
+    logger.warn(`⚠️  ${label}封面生成失败`, { error })
+    return null
+  }
+}
 
-    command
-      .complexFilter([
-        '[1:v]scale=-1:1080:flags=lanczos[scaled_video]',
-        '[scaled_video]pad=1920:1080:(ow-iw)/2:(oh-ih)/2:black,setsar=1,format=rgba[video_layer]',
-        templateFilter,
-        metadata.hasAlphaChannel ? '[video_layer][template_layer]overlay=0:0[out]' : '[template_layer][video_layer]overlay=0:0[out]',
-      ])
-      .outputOptions([
-        '-map',
-        '[out]',
-        '-map',
-        '1:a?',
-        '-c:v',
-        'libx264',
-        '-preset',
-        'slow',
-        '-crf',
-        '18',
-        '-c:a',
-        'aac',
-        '-b:a',
-        '192k',
-        '-shortest',
-        '-pix_fmt',
-        'yuv420p',
-        '-movflags',
-        '+faststart',
-      ])
-      .output(outputPath)
-      .on('start', (cmd) => console.log(`🎥 开始生成横版视频: ${cmd}`))
-      .on('end', () => resolve())
-      .on('error', (err) => reject(err))
-      .run()
+/**
+ * 根据各输出的阶段推算批次阶段。
+ */
+function deriveBatchPhase(variants: VariantRenderProgress[]): BatchRenderPhase {
+  if (variants.some((entry) => entry.phase === 'rendering' || entry.phase === 'retrying')) {
+    return 'rendering'
+  }
+  if (variants.every((entry) => entry.phase === 'queued')) {
+    return 'preparing'
+  }
+  if (variants.some((entry) => entry.phase === 'poster') || variants.every((entry) => entry.phase !== 'queued')) {
+    return 'finalizing'
+  }
+  return 'preparing'
+}
+
+/**
+ * 删除未完成（失败或被取消）的成片、封面与缩略图，忽略不存在的文件。
+ */
+async function removeProducedFiles(files: string[]): Promise<void> {
+  await Promise.all(
+    files.map((file) =>
+      fs.promises.unlink(file).catch((error: NodeJS.ErrnoException) => {
+        if (error.code !== 'ENOENT') {
+          logger.warn(`⚠️  无法删除未完成的输出文件: ${file}`, { error })
+        }
+      }),
+    ),
+  )
+  if (files.length > 0) {
+    logger.info(`🧹 已清理 ${files.length} 个未完成的输出文件`)
+  }
+}
+
+/**
+ * 校验批次参数，返回实际使用的编码配置（草稿固定使用快速配置）、渲染质量与按注册表顺序排列的模板。
+ */
+function resolveBatchTemplates(payload: VideoProcessorPayload): {
+  encodingProfile: EncodingProfile
+  quality: RenderQuality
+  templatesToRender: TemplateDescriptor[]
+} {
+  for (const variant of Object.keys(payload.templates)) {
+    requireOutputVariant(variant)
+  }
+
+  const quality = payload.quality ?? DEFAULT_RENDER_QUALITY
+  // 草稿也校验所选的编码配置：转为正式渲染时按它输出
+  const requestedProfile = requireEncodingProfile(payload.encodingProfileId)
+  const encodingProfile = quality.tier === 'draft' ? DRAFT_ENCODING_PROFILE : requestedProfile
+  const templatesToRender = listOutputVariants()
+    .map((definition) => payload.templates[definition.id])
+    .filter((template): template is TemplateDescriptor => Boolean(template))
+  if (templatesToRender.length === 0) {
+    throw new Error('至少需要上传一个模板文件')
+  }
+  if (payload.videos.length === 0) {
+    throw new Error('未找到可处理的视频文件')
+  }
+
+  return { encodingProfile, quality, templatesToRender }
+}
+
+/**
+ * 成片输出路径：`<尺寸>_<源视频名>_<时间戳>.<容器>`，草稿为 `<尺寸>_<源视频名>_draft_<时间戳>.<容器>`。
+ */
+function buildOutputPath(
+  variant: TemplateVariant,
+  originalName: string,
+  timestamp: number,
+  encodingProfile: EncodingProfile,
+  quality: RenderQuality,
+): string {
+  const baseName = path.parse(originalName).name
+  const qualitySuffix = quality.tier === 'draft' ? '_draft' : ''
+  return path.join(
+    OUTPUT_DIRECTORY,
+    `${variant}_${baseName}${qualitySuffix}_${timestamp}.${encodingProfile.container}`,
+  )
+}
+
+/**
+ * 将合成参数展开为 FFmpeg 命令行参数，顺序与 fluent-ffmpeg 实际执行时一致。
+ */
+function buildFfmpegArguments(spec: CompositeRenderSpec, outputPath: string): string[] {
+  return [
+    ...spec.inputs.flatMap((input) => [...input.options, '-i', input.path]),
+    '-y',
+    '-filter_complex',
+    spec.filters.join(';'),
+    ...spec.outputOptions,
+    outputPath,
+  ]
+}
+
+/**
+ * 试运行：探测输入、解析模板布局与时长方案，返回每个输出的分辨率、时长、滤镜图与 FFmpeg 参数，不做任何编码。
+ * 设计师替换模板后可以先检查布局是否符合预期，无需等待完整渲染。
+ *
+ * @param payload - 与 processVideoBatch 相同的输入
+ * @returns 渲染计划；单个输出无法生成参数（例如拼接片头片尾但读取不到时长）时记录在该输出的 error 中
+ */
+export async function planVideoBatch(payload: VideoProcessorPayload): Promise<VideoBatchPlan> {
+  ensureFfmpegIsReady()
+  const { encodingProfile, quality, templatesToRender } = resolveBatchTemplates(payload)
+  const timestamp = Date.now()
+  const videos: VideoBatchPlan['videos'] = []
+  const outputs: PlannedVariantOutput[] = []
+
+  for (const [videoIndex, videoFile] of payload.videos.entries()) {
+    const videoName = videoFile.originalName || 'video'
+    const source = await runWithLogContext({ phase: 'probe' }, () => probeMedia(videoFile.path))
+    videos.push({ videoIndex, videoName, source })
+
+    for (const template of templatesToRender) {
+      const outputSize = resolveOutputSize(template.variant, quality)
+      const outputPath = buildOutputPath(template.variant, videoName, timestamp, encodingProfile, quality)
+      const durationPlan = applyQualityToDurationPlan(resolveDurationPlan(template, source.durationSeconds), quality)
+      const planned: PlannedVariantOutput = {
+        videoIndex,
+        videoName,
+        variant: template.variant,
+        width: outputSize.width,
+        height: outputSize.height,
+        filename: path.basename(outputPath),
+        templateType: isImageTemplate(template) ? 'image' : 'video',
+        hasAlphaChannel: (template.metadata ?? defaultTemplateMetadata).hasAlphaChannel,
+        placement: resolveTemplatePlacement(template),
+        background: template.background?.mode ?? 'color',
+        hasSubtitle: Boolean(videoFile.subtitle),
+        duration: durationPlan,
+        spec: null,
+        ffmpegArguments: null,
+      }
+
+      try {
+        const spec = buildCompositeRenderSpec(videoFile, template, encodingProfile, quality, durationPlan, source)
+        planned.spec = spec
+        planned.ffmpegArguments = buildFfmpegArguments(spec, outputPath)
+      } catch (error) {
+        planned.error = error instanceof Error ? error.message : String(error)
+      }
+      outputs.push(planned)
+    }
+  }
+
+  logger.info(`🧪 试运行完成: ${outputs.length} 个输出，${outputs.filter((output) => output.error).length} 个无法渲染`)
+  return {
+    valid: outputs.every((output) => !output.error),
+    quality,
+    encodingProfile: encodingProfile.id,
+    container: encodingProfile.container,
+    poster: payload.poster ?? DEFAULT_POSTER_OPTIONS,
+    videos,
+    outputs,
+  }
+}
+
+/**
+ * 在合成主体（不含片头片尾）上截取一帧 PNG，使用与完整渲染相同的滤镜图，用于提交批次前检查布局。
+ * 采用输出端定位（-ss 放在输出参数中），模板与源视频在同一时间轴上解码，取到的画面与成片一致。
+ *
+ * @param video - 源视频（含可选的字幕）
+ * @param template - 目标尺寸的模板信息，片头片尾会被忽略
+ * @param seconds - 取帧时间点（秒）；超出合成主体时长时取最后一帧
+ * @param source - 源视频的探测结果，多个尺寸共用
+ * @param signal - 取消信号（例如请求断开）；触发时终止 FFmpeg 并抛出 RenderCancelledError
+ * @returns 预览帧的 PNG 数据与实际取帧时间点
+ */
+export async function renderCompositePreview(
+  video: UploadedVideoDescriptor,
+  template: TemplateDescriptor,
+  seconds: number,
+  source: MediaProbeResult,
+  signal?: AbortSignal,
+): Promise<CompositePreviewFrame> {
+  ensureFfmpegIsReady()
+  throwIfCancelled(signal)
+  const { canvas, label } = requireOutputVariant(template.variant)
+  const durationPlan = resolveDurationPlan(template, source.durationSeconds)
+  const { inputs, filters, compositeLabel } = buildCompositeLayers(video, template, durationPlan)
+
+  const frameSeconds = 1 / (source.frameRate ?? FALLBACK_FRAME_RATE)
+  const lastFrameAt = durationPlan.outputSeconds === null ? null : Math.max(0, durationPlan.outputSeconds - frameSeconds)
+  const previewSeconds = Math.max(0, lastFrameAt === null ? seconds : Math.min(seconds, lastFrameAt))
+  const outputPath = path.join(OUTPUT_DIRECTORY, `preview_${template.variant}_${randomUUID()}.png`)
+
+  const command = ffmpeg()
+  inputs.forEach((input) => {
+    command.input(input.path).inputOptions(input.options)
   })
+  command
+    .complexFilter(filters)
+    .outputOptions(['-map', `[${compositeLabel}]`, '-ss', previewSeconds.toFixed(3), '-frames:v', '1', '-c:v', 'png'])
+    .output(outputPath)
+
+  try {
+    await runFfmpegCommand(command, `生成${label}预览帧`, signal)
+    const png = await fs.promises.readFile(outputPath)
+    return { variant: template.variant, width: canvas.width, height: canvas.height, seconds: previewSeconds, png }
+  } finally {
+    await fs.promises.unlink(outputPath).catch(() => undefined)
+  }
 }
 
 /**
  * 根据输入的视频与模板组合生成所有目标视频，必要时回调上报进度。
  *
  * @param payload - 包含视频与模板的基础信息
- * @param options - 可选参数，当前仅支持进度回调
- * @returns 处理结果，包括可直接下载的 URL 列表
+ * @param options - 可选参数：进度回调与取消信号
+ * @returns 处理结果：成功输出的下载 URL 列表，以及每个输出的成败；单个输出失败不会中断其他输出
+ * @throws RenderCancelledError 取消信号触发时抛出，本批次已生成的文件会被删除
  */
 export async function processVideoBatch(
   payload: VideoProcessorPayload,
   options: ProcessVideoOptions = {},
-): Promise<{ success: boolean; message: string; videos: GeneratedVideoResult[] }> {
+): Promise<VideoBatchResult> {
   ensureFfmpegIsReady()
-  const { onProgress } = options
-  const verticalTemplate = payload.templates.vertical
-  const squareTemplate = payload.templates.square
-  const landscapeTemplate = payload.templates.landscape
-
-  const templatesToRender = [verticalTemplate, squareTemplate, landscapeTemplate].filter(Boolean)
-  if (templatesToRender.length === 0) {
-    throw new Error('至少需要上传一个模板文件')
-  }
-  if (payload.videos.length === 0) {
-    throw new Error('未找到可处理的视频文件')
-  }
+  const { onProgress, signal, onRenderSpec, retryPolicy = DEFAULT_RENDER_RETRY_POLICY } = options
+  const { encodingProfile, quality, templatesToRender } = resolveBatchTemplates(payload)
 
   const totalVariants = payload.videos.length * templatesToRender.length
   const results: GeneratedVideoResult[] = []
-  let completedVariants = 0
+  const outputs: VariantOutputStatus[] = []
+  const producedFiles: string[] = []
+  const variantProgress: VariantRenderProgress[] = payload.videos.flatMap((video, videoIndex) =>
+    templatesToRender.map((template) => ({
+      videoIndex,
+      videoName: video.originalName,
+      variant: template.variant,
+      phase: 'queued' as const,
+      fraction: 0,
+      attempts: 0,
+    })),
+  )
+
+  logger.info(
+    `🎛️ 编码配置: ${encodingProfile.label} (${encodingProfile.id})${quality.tier === 'draft' ? '，草稿渲染' : ''}`,
+  )
 
   const reportProgress = () => {
-    completedVariants += 1
-    onProgress?.(completedVariants, totalVariants)
-  }
-
-  for (const videoFile of payload.videos) {
-    const videoPath = videoFile.path
-    const originalName = videoFile.originalName || 'video'
-    const baseName = path.parse(originalName).name
-    const timestamp = Date.now()
-
-    console.log(`\n🎬 正在处理视频: ${originalName}`)
-
-    const tasks: Promise<void>[] = []
-
-    if (verticalTemplate) {
-      const outputPath = path.join(OUTPUT_DIRECTORY, `vertical_${baseName}_${timestamp}.mp4`)
-      tasks.push(
-        generateVerticalVideo(
-          videoPath,
-          verticalTemplate.path,
-          verticalTemplate.originalName,
-          outputPath,
-          verticalTemplate.metadata,
-        )
-          .then(() => {
-            results.push({
-              type: 'vertical',
-              url: `/api/output/${path.basename(outputPath)}`,
-              filename: path.basename(outputPath),
-            })
-          })
-          .finally(reportProgress),
-      )
-    }
+    const finished = variantProgress.filter((entry) => entry.phase === 'completed' || entry.phase === 'failed')
+    onProgress?.({
+      phase: deriveBatchPhase(variantProgress),
+      completedVariants: finished.length,
+      totalVariants,
+      fraction: variantProgress.reduce((sum, entry) => sum + entry.fraction, 0) / totalVariants,
+      variants: variantProgress.map((entry) => ({ ...entry })),
+    })
+  }
+  const updateVariant = (entry: VariantRenderProgress, phase: VariantRenderPhase, fraction = entry.fraction) => {
+    entry.phase = phase
+    entry.fraction = fraction
+    reportProgress()
+  }
+
+  reportProgress()
+
+  try {
+    for (const [videoIndex, videoFile] of payload.videos.entries()) {
+      throwIfCancelled(signal)
+      const videoPath = videoFile.path
+      const originalName = videoFile.originalName || 'video'
+      const timestamp = Date.now()
 
-    if (squareTemplate) {
-      const outputPath = path.join(OUTPUT_DIRECTORY, `square_${baseName}_${timestamp}.mp4`)
-      tasks.push(
-        generateSquareVideo(
-          videoPath,
-          squareTemplate.path,
-          squareTemplate.originalName,
-          outputPath,
-          squareTemplate.metadata,
-        )
-          .then(() => {
-            results.push({
-              type: 'square',
-              url: `/api/output/${path.basename(outputPath)}`,
-              filename: path.basename(outputPath),
+      logger.info(`\n🎬 正在处理视频: ${originalName}`)
+      const source = await runWithLogContext({ phase: 'probe' }, () => probeMedia(videoPath))
+
+      // 每个输出的日志都带上尺寸与阶段，便于在任务日志中区分并行的渲染
+      const tasks = templatesToRender.map((template, templateIndex) =>
+        runWithLogContext({ variant: template.variant }, () => {
+          const outputIndex = videoIndex * templatesToRender.length + templateIndex
+          const progressEntry = variantProgress[outputIndex]
+          const { label } = requireOutputVariant(template.variant)
+          const outputPath = buildOutputPath(template.variant, originalName, timestamp, encodingProfile, quality)
+          const durationPlan = applyQualityToDurationPlan(resolveDurationPlan(template, source.durationSeconds), quality)
+          producedFiles.push(outputPath)
+          const renderStartedAt = Date.now()
+          const renderWithRetry = async (): Promise<void> => {
+            for (let attempt = 1; ; attempt += 1) {
+              progressEntry.attempts = attempt
+              updateVariant(progressEntry, 'rendering', 0)
+              try {
+                await generateTemplateVideo(
+                  videoFile,
+                  template,
+                  outputPath,
+                  encodingProfile,
+                  quality,
+                  durationPlan,
+                  source,
+                  (fraction) => updateVariant(progressEntry, 'rendering', fraction * RENDER_PHASE_WEIGHT),
+                  signal,
+                  (spec) => onRenderSpec?.({ ...spec, videoIndex, variant: template.variant, attempt }),
+                )
+                return
+              } catch (error) {
+                if (!signal?.aborted) {
+                  incrementCounter('video_render_ffmpeg_failures_total', {
+                    variant: template.variant,
+                    retryable: String(isRetryableRenderError(error)),
+                  })
+                }
+                if (signal?.aborted || attempt >= retryPolicy.maxAttempts || !isRetryableRenderError(error)) {
+                  throw error
+                }
+
+                const delayMs = computeRetryDelayMs(attempt, retryPolicy)
+                progressEntry.lastError = error instanceof Error ? error.message : String(error)
+                logger.warn(
+                  `🔁 ${label}第 ${attempt} 次渲染失败（${originalName}），${delayMs}ms 后重试: ${progressEntry.lastError}`,
+                )
+                await removeProducedFiles([outputPath])
+                updateVariant(progressEntry, 'retrying', 0)
+                await waitForRetry(delayMs, signal)
+              }
+            }
+          }
+
+          return runWithLogContext({ phase: 'rendering' }, renderWithRetry)
+            .then(() => {
+              throwIfCancelled(signal)
+              updateVariant(progressEntry, 'poster', RENDER_PHASE_WEIGHT)
+              return runWithLogContext({ phase: 'poster' }, () =>
+                generatePosterImages(outputPath, durationPlan, payload.poster ?? DEFAULT_POSTER_OPTIONS, label, signal),
+              )
             })
-          })
-          .finally(reportProgress),
-      )
-    }
+            .then((poster) => {
+              if (poster) {
+                producedFiles.push(poster.posterPath, poster.thumbnailPath)
+              }
+              results.push({
+                type: template.variant,
+                url: `/api/output/${path.basename(outputPath)}`,
+                filename: path.basename(outputPath),
+                encodingProfile: encodingProfile.id,
+                quality: quality.tier,
+                duration: durationPlan,
+                posterUrl: poster ? `/api/output/${path.basename(poster.posterPath)}` : null,
+                thumbnailUrl: poster ? `/api/output/${path.basename(poster.thumbnailPath)}` : null,
+              })
+              outputs[outputIndex] = {
+                videoIndex,
+                videoName: originalName,
+                variant: template.variant,
+                status: 'ok',
+                attempts: progressEntry.attempts,
+                filename: path.basename(outputPath),
+              }
+              observeHistogram('video_render_variant_duration_seconds', (Date.now() - renderStartedAt) / 1000, {
+                variant: template.variant,
+                status: 'ok',
+              })
+              updateVariant(progressEntry, 'completed', 1)
+            })
+            .catch(async (error) => {
+              const message = error instanceof Error ? error.message : String(error)
+              progressEntry.lastError = message
+              updateVariant(progressEntry, 'failed', 1)
+              if (signal?.aborted) {
+                throw error
+              }
 
-    if (landscapeTemplate) {
-      const outputPath = path.join(OUTPUT_DIRECTORY, `landscape_${baseName}_${timestamp}.mp4`)
-      tasks.push(
-        generateLandscapeVideo(
-          videoPath,
-          landscapeTemplate.path,
-          landscapeTemplate.originalName,
-          outputPath,
-          landscapeTemplate.metadata,
-        )
-          .then(() => {
-            results.push({
-              type: 'landscape',
-              url: `/api/output/${path.basename(outputPath)}`,
-              filename: path.basename(outputPath),
+              logger.error(`❌ ${label}生成失败（${originalName}，共尝试 ${progressEntry.attempts} 次）: ${message}`)
+              observeHistogram('video_render_variant_duration_seconds', (Date.now() - renderStartedAt) / 1000, {
+                variant: template.variant,
+                status: 'failed',
+              })
+              await removeProducedFiles([outputPath])
+              outputs[outputIndex] = {
+                videoIndex,
+                videoName: originalName,
+                variant: template.variant,
+                status: 'failed',
+                attempts: progressEntry.attempts,
+                error: message,
+              }
             })
-          })
-          .finally(reportProgress),
+        }),
       )
-    }
 
-    await Promise.all(tasks)
+      // 取消时需等待同批次的其他 FFmpeg 进程全部退出后再清理文件
+      await Promise.allSettled(tasks)
+      throwIfCancelled(signal)
+    }
+  } catch (error) {
+    if (signal?.aborted) {
+      await removeProducedFiles(producedFiles)
+      throw error instanceof RenderCancelledError ? error : new RenderCancelledError()
+    }
+    throw error
   }
 
-  console.log('\n🎉 所有批量任务处理完成!')
-
-  return {
-    success: true,
-    message: `成功处理 ${payload.videos.length} 个视频`,
-    videos: results,
+  const failedCount = outputs.filter((output) => output.status === 'failed').length
+  if (failedCount === 0) {
+    logger.info('\n🎉 所有批量任务处理完成!')
+    return {
+      success: true,
+      message: `成功处理 ${payload.videos.length} 个视频`,
+      videos: results,
+      outputs,
+    }
   }
+
+  const message =
+    results.length === 0
+      ? `全部 ${totalVariants} 个输出均生成失败`
+      : `成功生成 ${results.length}/${totalVariants} 个输出，${failedCount} 个失败`
+  logger.warn(`\n⚠️ 批量任务处理结束: ${message}`)
+  return { success: false, message, videos: results, outputs }
 }
 
@@ -0,0 +1,173 @@
+/**
+ * 任务完成回调（Webhook）
+ *
+ * 负责：
+ * 1. 使用 WEBHOOK_SIGNING_SECRET 对回调内容做 HMAC-SHA256 签名
+ * 2. 向调用方提供的 callbackUrl POST 任务的最终快照，失败时按指数退避重试
+ * 3. 记录每次投递的结果，供任务快照展示
+ *
+ * 接收方校验方式：对 `${X-Video-Webhook-Timestamp}.${原始请求体}` 计算 HMAC-SHA256（十六进制），
+ * 与 X-Video-Webhook-Signature 中 `sha256=` 之后的部分比较。
+ */
+
+import { createHmac } from 'node:crypto'
+
+import { logger } from '@/lib/logger'
+
+/**
+ * 单次投递的结果。
+ */
+export interface WebhookDeliveryAttempt {
+  /** 第几次投递（从 1 开始） */
+  attempt: number
+  /** 投递开始时间（毫秒时间戳） */
+  at: number
+  /** 接收方返回的 HTTP 状态码；网络错误或超时时为 null */
+  statusCode: number | null
+  ok: boolean
+  durationMs: number
+  error?: string
+}
+
+/**
+ * 任务的回调配置与投递记录：
+ * pending 等待任务结束 → delivering 投递中 → delivered 成功 / failed 重试耗尽。
+ */
+export interface WebhookDelivery {
+  url: string
+  status: 'pending' | 'delivering' | 'delivered' | 'failed'
+  attempts: WebhookDeliveryAttempt[]
+}
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Video-Webhook-Signature'
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Video-Webhook-Timestamp'
+
+const WEBHOOK_MAX_ATTEMPTS = 5
+const WEBHOOK_BASE_DELAY_MS = 2000
+const WEBHOOK_MAX_DELAY_MS = 60 * 1000
+const WEBHOOK_TIMEOUT_MS = 10 * 1000
+const MAX_ERROR_LENGTH = 200
+
+const WEBHOOK_SIGNING_SECRET = process.env.WEBHOOK_SIGNING_SECRET?.trim() || null
+
+/**
+ * 是否配置了签名密钥；未配置时不接受 callbackUrl，避免发出无法校验来源的回调。
+ */
+export function isWebhookSigningConfigured(): boolean {
+  return WEBHOOK_SIGNING_SECRET !== null
+}
+
+/**
+ * 计算回调签名。
+ *
+ * @param body - 原始请求体
+ * @param timestamp - 随请求发送的秒级时间戳，防止重放
+ * @returns `sha256=<十六进制摘要>`
+ */
+export function signWebhookPayload(body: string, timestamp: number): string {
+  if (!WEBHOOK_SIGNING_SECRET) {
+    throw new Error('未配置 WEBHOOK_SIGNING_SECRET，无法签名回调')
+  }
+  const digest = createHmac('sha256', WEBHOOK_SIGNING_SECRET).update(`${timestamp}.${body}`).digest('hex')
+  return `sha256=${digest}`
+}
+
+/**
+ * 判断响应状态码是否值得重试：5xx、408 与 429 视为临时故障，其余 4xx 直接放弃。
+ */
+function isRetryableStatus(statusCode: number): boolean {
+  return statusCode >= 500 || statusCode === 408 || statusCode === 429
+}
+
+/**
+ * 第 attempt 次投递失败后的等待时间：2s、4s、8s……，不超过 60s。
+ */
+function computeWebhookDelayMs(attempt: number): number {
+  return Math.min(WEBHOOK_BASE_DELAY_MS * 2 ** (attempt - 1), WEBHOOK_MAX_DELAY_MS)
+}
+
+/**
+ * 投递一次回调并记录结果。
+ */
+async function sendWebhookOnce(url: string, body: string, jobId: string, attempt: number): Promise<WebhookDeliveryAttempt> {
+  const startedAt = Date.now()
+  const timestamp = Math.floor(startedAt / 1000)
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'video-template-webhook/1.0',
+        'X-Video-Job-Id': jobId,
+        'X-Video-Webhook-Attempt': String(attempt),
+        [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(body, timestamp),
+      },
+      body,
+      cache: 'no-store',
+      redirect: 'manual',
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    })
+    // 释放连接，响应内容本身不需要
+    await response.body?.cancel()
+
+    return {
+      attempt,
+      at: startedAt,
+      statusCode: response.status,
+      ok: response.ok,
+      durationMs: Date.now() - startedAt,
+      error: response.ok ? undefined : `接收方返回 ${response.status} ${response.statusText}`.trim(),
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    return {
+      attempt,
+      at: startedAt,
+      statusCode: null,
+      ok: false,
+      durationMs: Date.now() - startedAt,
+      error: message.slice(0, MAX_ERROR_LENGTH),
+    }
+  }
+}
+
+/**
+ * 投递任务回调，失败时按指数退避重试，最多 5 次。
+ *
+ * @param url - 接收回调的地址
+ * @param payload - 回调内容，会被序列化为 JSON 并签名
+ * @param jobId - 任务 ID，随请求头发送
+ * @param onAttempt - 每次投递结束后的回调，用于把结果写入任务快照
+ * @returns 是否投递成功
+ */
+export async function deliverWebhook(
+  url: string,
+  payload: unknown,
+  jobId: string,
+  onAttempt: (attempt: WebhookDeliveryAttempt) => void,
+): Promise<boolean> {
+  const body = JSON.stringify(payload)
+
+  for (let attempt = 1; attempt <= WEBHOOK_MAX_ATTEMPTS; attempt += 1) {
+    const result = await sendWebhookOnce(url, body, jobId, attempt)
+    onAttempt(result)
+
+    if (result.ok) {
+      logger.info(`📮 回调投递成功: ${url}（任务 ${jobId}，第 ${attempt} 次）`)
+      return true
+    }
+    if (result.statusCode !== null && !isRetryableStatus(result.statusCode)) {
+      break
+    }
+    if (attempt < WEBHOOK_MAX_ATTEMPTS) {
+      const delayMs = computeWebhookDelayMs(attempt)
+      logger.warn(`⚠️  回调投递失败（第 ${attempt} 次）: ${result.error}，${delayMs}ms 后重试`)
+      await new Promise((resolve) => setTimeout(resolve, delayMs))
+    }
+  }
+
+  logger.error(`❌ 回调投递失败，已放弃: ${url}（任务 ${jobId}）`)
+  return false
+}
@@ -0,0 +1,56 @@
+/**
+ * 本地重放失败任务的调试包
+ *
+ * 用法：
+ *   pnpm replay-bundle <解压后的调试包目录>
+ *
+ * 读取 manifest.json，用包内的输入文件与原始处理参数重新调用 processVideoBatch，
+ * 逐个输出与原任务的结果对照。任一输出失败时以退出码 1 结束，便于在修复后确认问题已消失。
+ */
+
+import path from 'path'
+
+import { loadDebugBundle } from '@/lib/debug-bundles'
+import { processVideoBatch } from '@/lib/video-processor'
+
+async function main(): Promise<number> {
+  const bundleArgument = process.argv[2]
+  if (!bundleArgument) {
+    console.error('用法: pnpm replay-bundle <调试包目录>')
+    return 2
+  }
+
+  // 通过 pnpm 运行时工作目录是项目根目录，相对路径按执行命令时所在的目录解析
+  const bundleDirectory = path.resolve(process.env.INIT_CWD ?? process.cwd(), bundleArgument)
+  const { manifest, payload } = await loadDebugBundle(bundleDirectory)
+  console.log(`🧰 重放任务 ${manifest.jobId}（原状态: ${manifest.status}）`)
+  if (manifest.error) {
+    console.log(`   原错误: ${manifest.error}`)
+  }
+
+  const result = await processVideoBatch(payload)
+
+  for (const output of result.outputs) {
+    const original = manifest.outputs.find(
+      (entry) => entry.videoIndex === output.videoIndex && entry.variant === output.variant,
+    )
+    const label = `${output.videoName} × ${output.variant}`
+    const before = original ? original.status : '未知'
+    if (output.status === 'ok') {
+      console.log(`✅ ${label}: ${output.filename}（原结果: ${before}）`)
+    } else {
+      console.log(`❌ ${label}: ${output.error}（原结果: ${before}）`)
+    }
+  }
+  console.log(result.message)
+
+  return result.success ? 0 : 1
+}
+
+main().then(
+  (exitCode) => process.exit(exitCode),
+  (error) => {
+    console.error('❌ 重放失败:', error)
+    process.exit(1)
+  },
+)